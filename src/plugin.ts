@@ -9,8 +9,16 @@ import type { AntigravityTokenExchangeResult } from "./antigravity/oauth";
 import { accessTokenExpired, isOAuthAuth } from "./plugin/auth";
 import { promptProjectId } from "./plugin/cli";
 import { ensureProjectContext } from "./plugin/project";
-import { startAntigravityDebugRequest } from "./plugin/debug";
+import { fetchWithEmulatedCandidates } from "./plugin/candidates";
+import { logAntigravityDebugMessage, startAntigravityDebugRequest } from "./plugin/debug";
+import { applyModelCatalog } from "./plugin/models";
 import {
+  discoverAntigravityModels,
+  mergeDiscoveredModels,
+  type ModelDiscoveryResult,
+} from "./plugin/model-discovery";
+import {
+  createLocalErrorResponse,
   isGenerativeLanguageRequest,
   prepareAntigravityRequest,
   transformAntigravityResponse,
@@ -20,6 +28,8 @@ import { startOAuthListener, type OAuthListener } from "./plugin/server";
 import type {
   GetAuth,
   LoaderResult,
+  OAuthAuthDetails,
+  PluginClient,
   PluginContext,
   PluginResult,
   ProjectContextResult,
@@ -40,6 +50,9 @@ export const createAntigravityPlugin = (providerId: string) => async (
         return null;
       }
 
+      const declaredModelIds = new Set(Object.keys(provider.models ?? {}));
+      applyModelCatalog(provider);
+      await discoverProviderModels(auth, client, providerId, provider, declaredModelIds);
       if (provider.models) {
         for (const model of Object.values(provider.models)) {
           if (model) {
@@ -110,6 +123,7 @@ export const createAntigravityPlugin = (providerId: string) => async (
                 toolDebugMissing,
                 toolDebugSummary,
                 toolDebugPayload,
+                context: requestContext,
               } = prepareAntigravityRequest(
                 input,
                 init,
@@ -128,9 +142,19 @@ export const createAntigravityPlugin = (providerId: string) => async (
                 body: transformedInit.body,
                 streaming,
                 projectId: projectContext.effectiveProjectId,
+                sessionId: requestContext?.sessionId,
+                turn: requestContext?.turn,
+                adjustments: requestContext?.adjustments,
+                thinking: requestContext?.thinkingSource,
               });
 
-              const response = await fetch(request, transformedInit);
+              if (requestContext?.localError) {
+                return createLocalErrorResponse(requestContext);
+              }
+
+              const response = requestContext?.candidateCount
+                ? await fetchWithEmulatedCandidates(request, transformedInit, requestContext.candidateCount)
+                : await fetch(request, transformedInit);
               
               // Check if we should retry with next endpoint
               const shouldRetry = (
@@ -158,6 +182,7 @@ export const createAntigravityPlugin = (providerId: string) => async (
                 toolDebugMissing,
                 toolDebugSummary,
                 toolDebugPayload,
+                requestContext,
               );
             } catch (error) {
               // Network error or other exception
@@ -183,6 +208,7 @@ export const createAntigravityPlugin = (providerId: string) => async (
               toolDebugMissing,
               toolDebugSummary,
               toolDebugPayload,
+              context: requestContext,
             } = prepareAntigravityRequest(
               input,
               init,
@@ -198,6 +224,10 @@ export const createAntigravityPlugin = (providerId: string) => async (
               body: init?.body,
               streaming,
               projectId: projectContext.effectiveProjectId,
+              sessionId: requestContext?.sessionId,
+              turn: requestContext?.turn,
+              adjustments: requestContext?.adjustments,
+              thinking: requestContext?.thinkingSource,
             });
             return transformAntigravityResponse(
               lastResponse,
@@ -210,6 +240,7 @@ export const createAntigravityPlugin = (providerId: string) => async (
               toolDebugMissing,
               toolDebugSummary,
               toolDebugPayload,
+              requestContext,
             );
           }
           
@@ -347,3 +378,63 @@ function toUrlString(value: RequestInfo): string {
   }
   return value.toString();
 }
+
+/**
+ * Longest the loader waits for model discovery (token refresh, project lookup and listing).
+ */
+const MODEL_DISCOVERY_LOADER_TIMEOUT_MS = 2500;
+
+/**
+ * Fetches the models available to the account, or null when discovery fails.
+ */
+async function fetchProviderModels(
+  auth: OAuthAuthDetails,
+  client: PluginClient,
+  providerId: string,
+): Promise<ModelDiscoveryResult | null> {
+  try {
+    const authRecord = accessTokenExpired(auth) ? await refreshAccessToken(auth, client, providerId) : auth;
+    if (!authRecord?.access) {
+      return null;
+    }
+    const projectContext = await ensureProjectContext(authRecord, client, providerId);
+    return await discoverAntigravityModels(authRecord.access, projectContext.effectiveProjectId);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Merges the models available to the account into the provider config. Discovery is best-effort
+ * and bounded: when it fails or takes longer than `MODEL_DISCOVERY_LOADER_TIMEOUT_MS`, the static
+ * catalog stays in place. A late result still fills the discovery cache for the next load.
+ */
+async function discoverProviderModels(
+  auth: OAuthAuthDetails,
+  client: PluginClient,
+  providerId: string,
+  provider: Provider,
+  declaredModelIds: ReadonlySet<string>,
+): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), MODEL_DISCOVERY_LOADER_TIMEOUT_MS);
+  });
+  const result = await Promise.race([fetchProviderModels(auth, client, providerId), deadline]);
+  clearTimeout(timer);
+
+  if (result === "timeout") {
+    logAntigravityDebugMessage(
+      `Model discovery took longer than ${MODEL_DISCOVERY_LOADER_TIMEOUT_MS}ms; using the static catalog`,
+    );
+    return;
+  }
+  if (!result) {
+    logAntigravityDebugMessage("Model discovery failed; using the static catalog");
+    return;
+  }
+  const unavailable = mergeDiscoveredModels(provider, result, declaredModelIds);
+  if (unavailable.length > 0) {
+    logAntigravityDebugMessage(`Models unavailable to this account: ${unavailable.join(", ")}`);
+  }
+}
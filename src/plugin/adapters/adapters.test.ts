@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+
+import type { AntigravityRequestContext } from "../request";
+import { createToolNameMapping } from "../tool-names";
+import { claudeAdapter } from "./claude";
+import { geminiAdapter } from "./gemini";
+import { gptOssAdapter } from "./gpt-oss";
+import { getModelAdapter, type AdapterRequestState } from "./index";
+
+function createState(model: string): AdapterRequestState {
+  const context: AntigravityRequestContext = {
+    family: getModelAdapter(model).family,
+    toolNames: createToolNameMapping(),
+    adjustments: [],
+  };
+  return { model, context, toolDebug: { missing: 0, summaries: [] } };
+}
+
+describe("getModelAdapter", () => {
+  it("selects the adapter by model family", () => {
+    expect(getModelAdapter("claude-sonnet-4-5")).toBe(claudeAdapter);
+    expect(getModelAdapter("gemini-3-pro-high")).toBe(geminiAdapter);
+    expect(getModelAdapter("gpt-oss-120b-medium")).toBe(gptOssAdapter);
+  });
+});
+
+describe("claudeAdapter", () => {
+  it("collapses function-style tools into one declaration list with sanitized names", () => {
+    const state = createState("claude-sonnet-4-5");
+    const payload: Record<string, unknown> = {
+      tools: [
+        { function: { name: "read.file", description: "Read", parameters: { type: "object", properties: {} } } },
+        { name: "noop" },
+      ],
+    };
+
+    claudeAdapter.normalizeTools(payload, state);
+
+    expect(payload.tools).toEqual([
+      {
+        functionDeclarations: [
+          { name: "read_file", description: "Read", parameters: { type: "object", properties: {} } },
+        ],
+      },
+      { name: "noop" },
+    ]);
+    expect(state.context.toolNames.toOriginal.get("read_file")).toBe("read.file");
+  });
+
+  it("disables thinking when tool use is forced", () => {
+    const state = createState("claude-sonnet-4-5-thinking");
+    const payload = { toolConfig: { functionCallingConfig: { mode: "ANY" } } };
+
+    expect(claudeAdapter.resolveThinking(payload, undefined, 16000, state)).toEqual({
+      includeThoughts: false,
+      thinkingBudget: 0,
+    });
+  });
+});
+
+describe("geminiAdapter", () => {
+  it("applies the default budget to thinking models", () => {
+    expect(geminiAdapter.resolveThinking({}, undefined, 4096, createState("gemini-3-pro-low"))).toEqual({
+      includeThoughts: true,
+      thinkingBudget: 4096,
+    });
+  });
+});
+
+describe("gptOssAdapter", () => {
+  it("drops thinking config and earlier reasoning", () => {
+    const state = createState("gpt-oss-120b-medium");
+
+    expect(gptOssAdapter.resolveThinking({}, { includeThoughts: true, thinkingBudget: 8000 }, 16000, state)).toBeUndefined();
+    expect(state.context.adjustments).toHaveLength(1);
+    expect(
+      gptOssAdapter.finalizeContents(
+        [
+          { role: "user", parts: [{ text: "hi" }] },
+          { role: "model", parts: [{ thought: true, text: "reasoning" }] },
+          { role: "model", parts: [{ thought: true, text: "more" }, { text: "answer" }] },
+        ],
+        state,
+      ),
+    ).toEqual([
+      { role: "user", parts: [{ text: "hi" }] },
+      { role: "model", parts: [{ text: "answer" }] },
+    ]);
+  });
+});
+
+describe("code execution", () => {
+  it("forwards the tool to Gemini and rejects it locally for Claude", () => {
+    const geminiState = createState("gemini-3-pro-high");
+    const geminiPayload: Record<string, unknown> = { tools: [{ code_execution: {} }] };
+    geminiAdapter.normalizeTools(geminiPayload, geminiState);
+
+    expect(geminiPayload.tools).toEqual([{ codeExecution: {} }]);
+    expect(geminiState.context.localError).toBeUndefined();
+
+    const claudeState = createState("claude-sonnet-4-5");
+    claudeAdapter.normalizeTools({ tools: [{ codeExecution: {} }] }, claudeState);
+
+    expect(claudeState.context.localError).toMatchObject({ code: 400, status: "INVALID_ARGUMENT" });
+  });
+});
+
+describe("allowedFunctionNames", () => {
+  it("maps allowed names to sanitized tool names for Gemini and GPT-OSS", () => {
+    for (const [adapter, model] of [[geminiAdapter, "gemini-3-pro-high"], [gptOssAdapter, "gpt-oss-120b-medium"]] as const) {
+      const state = createState(model);
+      const payload: Record<string, any> = {
+        tools: [{ functionDeclarations: [{ name: "fs.read" }, { name: "fs.write" }] }],
+        tool_config: { function_calling_config: { mode: "ANY", allowed_function_names: ["fs.read", "other"] } },
+      };
+
+      adapter.normalizeTools(payload, state);
+
+      expect(payload.tool_config.function_calling_config.allowed_function_names).toEqual(["fs_read", "other"]);
+    }
+  });
+});
@@ -0,0 +1,203 @@
+import { codeExecutionUnsupportedMessage, extractCodeExecutionTools } from "../code-execution";
+import { extractGroundingTools } from "../grounding";
+import { isThinkingCapableModel, lacksThinkingSupport } from "../models";
+import { applyClaudePromptCache, cacheHintOf } from "../prompt-cache";
+import {
+  filterUnsignedThinkingBlocks,
+  lastToolTurnLacksSignedThinking,
+  normalizeThinkingConfig,
+  resolveThinkingConfig,
+} from "../request-helpers";
+import { translateToolSchema } from "../schema";
+import { prepareStructuredOutput } from "../structured-output";
+import { buildTextSystemInstruction } from "../system-instruction";
+import { captureThinkingFromResponse, createThinkingCapture, restoreThinkingBlocks } from "../thinking-cache";
+import { applyClaudeToolConfig, isForcedToolUse } from "../tool-config";
+import { registerToolName } from "../tool-names";
+import { repairToolPairing } from "../tool-pairing";
+import { attachToolResultImages } from "../tool-result-media";
+import type { AdapterRequestState, ModelFamilyAdapter } from "./types";
+
+/**
+ * Collapses every function-style tool definition into a single `functionDeclarations` entry
+ * with full names and schemas, as Claude requires.
+ */
+function normalizeClaudeTools(requestPayload: Record<string, unknown>, state: AdapterRequestState): void {
+  if (!Array.isArray(requestPayload.tools)) {
+    return;
+  }
+  const { context, toolDebug } = state;
+  const functionDeclarations: any[] = [];
+  const passthroughTools: any[] = [];
+
+  const normalizeSchema = (schema: any) => {
+    if (!schema || typeof schema !== "object") {
+      toolDebug.missing += 1;
+      // Minimal fallback for tools without schemas
+      return { type: "object" };
+    }
+
+    return translateToolSchema(schema, "claude");
+  };
+
+  requestPayload.tools.forEach((tool: any) => {
+    const pushDeclaration = (decl: any, source: string) => {
+      const schema =
+        decl?.parameters ||
+        decl?.input_schema ||
+        decl?.inputSchema ||
+        tool.parameters ||
+        tool.input_schema ||
+        tool.inputSchema ||
+        tool.function?.parameters ||
+        tool.function?.input_schema ||
+        tool.function?.inputSchema ||
+        tool.custom?.parameters ||
+        tool.custom?.input_schema;
+
+      let name =
+        decl?.name ||
+        tool.name ||
+        tool.function?.name ||
+        tool.custom?.name ||
+        `tool-${functionDeclarations.length}`;
+
+      // Sanitize tool name: must be alphanumeric with underscores, no special chars
+      name = registerToolName(context.toolNames, String(name));
+
+      const description =
+        decl?.description ||
+        tool.description ||
+        tool.function?.description ||
+        tool.custom?.description ||
+        "";
+
+      // Cache hints on the declaration (or its tool) become prompt-cache breakpoints
+      const cacheControl = cacheHintOf(decl) ?? (decl === tool.function || decl === tool.custom ? cacheHintOf(tool) : undefined);
+      functionDeclarations.push({
+        name,
+        description: String(description || ""),
+        parameters: normalizeSchema(schema),
+        ...(cacheControl ? { cacheControl } : {}),
+      });
+
+      toolDebug.summaries.push(
+        `decl=${name},src=${source},hasSchema=${schema ? "y" : "n"}`,
+      );
+    };
+
+    if (Array.isArray(tool.functionDeclarations) && tool.functionDeclarations.length > 0) {
+      tool.functionDeclarations.forEach((decl: any) => pushDeclaration(decl, "functionDeclarations"));
+      const toolHint = cacheHintOf(tool);
+      const last = functionDeclarations.at(-1);
+      if (toolHint && last && !last.cacheControl) {
+        last.cacheControl = toolHint;
+      }
+      return;
+    }
+
+    // Fall back to function/custom style definitions.
+    if (
+      tool.function ||
+      tool.custom ||
+      tool.parameters ||
+      tool.input_schema ||
+      tool.inputSchema
+    ) {
+      pushDeclaration(tool.function ?? tool.custom ?? tool, "function/custom");
+      return;
+    }
+
+    // Preserve any other non-function tool entries untouched.
+    passthroughTools.push(tool);
+  });
+
+  const finalTools: any[] = [];
+  if (functionDeclarations.length > 0) {
+    finalTools.push({ functionDeclarations });
+  }
+  requestPayload.tools = finalTools.concat(passthroughTools);
+}
+
+/**
+ * Claude models: signed thinking blocks are cached and re-injected, thinking is disabled where
+ * Anthropic would reject it, structured output and tool choice are emulated, and tool
+ * calls/results are repaired into strict pairs.
+ */
+export const claudeAdapter: ModelFamilyAdapter = {
+  family: "claude",
+
+  shapeSystemInstruction(parts, state) {
+    return buildTextSystemInstruction(parts, state.context.adjustments);
+  },
+
+  restoreHistory(requestPayload, state) {
+    // Re-inject signed thinking blocks the client dropped from earlier turns
+    if (Array.isArray(requestPayload.contents)) {
+      requestPayload.contents = restoreThinkingBlocks(requestPayload.contents, state.conversationKey);
+    }
+  },
+
+  prepareStructuredOutput(requestPayload, state) {
+    // Claude has no native responseSchema; structured output is emulated with a forced tool call
+    state.context.structuredOutput = prepareStructuredOutput(requestPayload, true);
+  },
+
+  resolveThinking(requestPayload, requested, defaultBudget, state) {
+    const hasUnsignedToolTurn = Array.isArray(requestPayload.contents) &&
+      lastToolTurnLacksSignedThinking(requestPayload.contents);
+
+    // Forced tool use is rejected while Claude thinking is enabled
+    const thinking = isForcedToolUse(requestPayload)
+      ? normalizeThinkingConfig({ includeThoughts: false, thinkingBudget: 0 })
+      : normalizeThinkingConfig(
+        resolveThinkingConfig(
+          lacksThinkingSupport(state.model) ? undefined : requested,
+          isThinkingCapableModel(state.model),
+          true,
+          hasUnsignedToolTurn,
+          defaultBudget,
+        ),
+      );
+    if (state.conversationKey && (thinking?.thinkingBudget ?? 0) > 0) {
+      state.context.thinking = createThinkingCapture(state.conversationKey);
+    }
+    return thinking;
+  },
+
+  normalizeTools(requestPayload, state) {
+    // Grounding is forwarded as a separate googleSearch tool, never as a function declaration
+    const grounding = extractGroundingTools(requestPayload);
+    if (extractCodeExecutionTools(requestPayload)) {
+      state.context.localError ??= {
+        code: 400,
+        status: "INVALID_ARGUMENT",
+        message: codeExecutionUnsupportedMessage(state.model),
+      };
+    }
+    normalizeClaudeTools(requestPayload, state);
+    if (grounding.length > 0) {
+      requestPayload.tools = [...(Array.isArray(requestPayload.tools) ? requestPayload.tools : []), ...grounding];
+    }
+    // Translate functionCallingConfig (AUTO/ANY/NONE, allowed names) into Claude tool choice
+    applyClaudeToolConfig(requestPayload, state.context.toolNames);
+  },
+
+  finalizeContents(contents, state) {
+    // Every tool use needs an ID and a result in the following user turn, and thinking blocks
+    // must be signed (required by Anthropic). Images in tool results become image parts.
+    const paired = repairToolPairing(filterUnsignedThinkingBlocks(contents));
+    return attachToolResultImages(paired, "claude", state.context.adjustments);
+  },
+
+  applyPromptCache(requestPayload, state) {
+    applyClaudePromptCache(requestPayload, state.context.adjustments);
+  },
+
+  normalizeResponse(response, context) {
+    if (context.thinking) {
+      captureThinkingFromResponse(context.thinking, response);
+    }
+    return response;
+  },
+};
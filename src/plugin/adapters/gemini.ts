@@ -0,0 +1,162 @@
+import { normalizeThinkingConfig, resolveThinkingConfig } from "../request-helpers";
+import { isThinkingCapableModel, lacksThinkingSupport } from "../models";
+import { stripCacheHints } from "../prompt-cache";
+import { translateToolSchema } from "../schema";
+import { extractCodeExecutionTools } from "../code-execution";
+import { extractGroundingTools } from "../grounding";
+import { prepareStructuredOutput } from "../structured-output";
+import { buildSystemInstruction } from "../system-instruction";
+import { recordFunctionCallSignatures, restoreFunctionCallSignatures } from "../thought-signatures";
+import { mapAllowedFunctionNames } from "../tool-config";
+import { registerToolName } from "../tool-names";
+import type { AdapterRequestState, ModelFamilyAdapter } from "./types";
+
+/**
+ * Normalizes tools into Gemini function-style declarations: schemas are translated to the
+ * supported subset and names are sanitized, including in `allowedFunctionNames`. Shared by every
+ * family that uses Gemini tool shapes.
+ */
+export function normalizeGeminiTools(requestPayload: Record<string, unknown>, state: AdapterRequestState): void {
+  if (!Array.isArray(requestPayload.tools)) {
+    return;
+  }
+  const { context, toolDebug } = state;
+
+  requestPayload.tools = requestPayload.tools.map((tool: any, toolIndex: number) => {
+    const newTool = { ...tool };
+
+    const schemaCandidates = [
+      newTool.function?.input_schema,
+      newTool.function?.parameters,
+      newTool.function?.inputSchema,
+      newTool.custom?.input_schema,
+      newTool.custom?.parameters,
+      newTool.parameters,
+      newTool.input_schema,
+      newTool.inputSchema,
+    ].filter(Boolean);
+    const schema = schemaCandidates[0] ? translateToolSchema(schemaCandidates[0], "gemini") : undefined;
+
+    if (Array.isArray(newTool.functionDeclarations)) {
+      newTool.functionDeclarations = newTool.functionDeclarations.map((decl: any) => {
+        const named = typeof decl?.name === "string"
+          ? { ...decl, name: registerToolName(context.toolNames, decl.name) }
+          : decl;
+        const declSchema = decl?.parameters ?? decl?.parametersJsonSchema;
+        if (!declSchema) {
+          return named;
+        }
+        const { parametersJsonSchema: _jsonSchema, ...rest } = named;
+        return { ...rest, parameters: translateToolSchema(declSchema, "gemini") };
+      });
+    }
+
+    const nameCandidate =
+      newTool.name ||
+      newTool.function?.name ||
+      newTool.custom?.name ||
+      `tool-${toolIndex}`;
+
+    if (newTool.function && !newTool.function.input_schema && schema) {
+      newTool.function.input_schema = schema;
+    }
+    if (newTool.custom && !newTool.custom.input_schema && schema) {
+      newTool.custom.input_schema = schema;
+    }
+    if (!newTool.custom && newTool.function) {
+      newTool.custom = {
+        name: newTool.function.name || nameCandidate,
+        description: newTool.function.description,
+        input_schema: schema ?? { type: "object", properties: {}, additionalProperties: false },
+      };
+    }
+    if (!newTool.custom && !newTool.function) {
+      newTool.custom = {
+        name: nameCandidate,
+        description: newTool.description,
+        input_schema: schema ?? { type: "object", properties: {}, additionalProperties: false },
+      };
+    }
+    if (newTool.custom && !newTool.custom.input_schema) {
+      newTool.custom.input_schema = { type: "object", properties: {}, additionalProperties: false };
+      toolDebug.missing += 1;
+    }
+
+    toolDebug.summaries.push(
+      `idx=${toolIndex}, hasCustom=${!!newTool.custom}, customSchema=${!!newTool.custom?.input_schema}, hasFunction=${!!newTool.function}, functionSchema=${!!newTool.function?.input_schema}`,
+    );
+
+    // Strip custom wrappers for Gemini; only function-style is accepted.
+    if (newTool.custom) {
+      delete newTool.custom;
+    }
+
+    return newTool;
+  });
+  mapAllowedFunctionNames(requestPayload, context.toolNames);
+}
+
+/**
+ * Gemini models: native thinking config, responseSchema, Google Search grounding and code execution;
+ * functionCall thoughtSignatures are recorded per conversation and restored on later turns,
+ * as Gemini 3 requires.
+ */
+export const geminiAdapter: ModelFamilyAdapter = {
+  family: "gemini",
+
+  shapeSystemInstruction(parts) {
+    return buildSystemInstruction(parts);
+  },
+
+  restoreHistory(requestPayload, state) {
+    if (!state.conversationKey) {
+      return;
+    }
+    state.context.signatureConversationKey = state.conversationKey;
+    if (Array.isArray(requestPayload.contents)) {
+      requestPayload.contents = restoreFunctionCallSignatures(requestPayload.contents, state.conversationKey);
+    }
+  },
+
+  prepareStructuredOutput(requestPayload, state) {
+    state.context.structuredOutput = prepareStructuredOutput(requestPayload, false);
+  },
+
+  resolveThinking(_requestPayload, requested, defaultBudget, state) {
+    return normalizeThinkingConfig(
+      resolveThinkingConfig(
+        lacksThinkingSupport(state.model) ? undefined : requested,
+        isThinkingCapableModel(state.model),
+        false,
+        false,
+        defaultBudget,
+      ),
+    );
+  },
+
+  normalizeTools(requestPayload, state) {
+    // Built-in tools are forwarded as-is rather than normalized like function tools
+    const grounding = extractGroundingTools(requestPayload);
+    const codeExecution = extractCodeExecutionTools(requestPayload);
+    normalizeGeminiTools(requestPayload, state);
+    const builtinTools = codeExecution ? [...grounding, { codeExecution: {} }] : grounding;
+    if (builtinTools.length > 0) {
+      requestPayload.tools = [...(requestPayload.tools as any[]), ...builtinTools];
+    }
+  },
+
+  finalizeContents(contents) {
+    return contents;
+  },
+
+  applyPromptCache(requestPayload, state) {
+    stripCacheHints(requestPayload, state.context.adjustments);
+  },
+
+  normalizeResponse(response, context) {
+    if (context.signatureConversationKey) {
+      recordFunctionCallSignatures(context.signatureConversationKey, response);
+    }
+    return response;
+  },
+};
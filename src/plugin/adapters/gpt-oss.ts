@@ -0,0 +1,75 @@
+import { codeExecutionUnsupportedMessage, extractCodeExecutionTools } from "../code-execution";
+import { extractGroundingTools } from "../grounding";
+import { stripCacheHints } from "../prompt-cache";
+import { prepareStructuredOutput } from "../structured-output";
+import { buildTextSystemInstruction } from "../system-instruction";
+import { normalizeGeminiTools } from "./gemini";
+import type { ModelFamilyAdapter } from "./types";
+
+/**
+ * Whether a part carries reasoning from an earlier turn.
+ */
+function isReasoningPart(part: any): boolean {
+  return part?.thought === true || part?.type === "thinking" || part?.type === "reasoning";
+}
+
+/**
+ * GPT-OSS models: reasoning effort is fixed by the model variant (e.g. `-medium`), so thinking
+ * config is not sent; earlier reasoning is dropped from history as gpt-oss expects, and tools
+ * use the Gemini function-declaration shape.
+ */
+export const gptOssAdapter: ModelFamilyAdapter = {
+  family: "gpt-oss",
+
+  shapeSystemInstruction(parts, state) {
+    return buildTextSystemInstruction(parts, state.context.adjustments);
+  },
+
+  restoreHistory() { },
+
+  prepareStructuredOutput(requestPayload, state) {
+    state.context.structuredOutput = prepareStructuredOutput(requestPayload, false);
+  },
+
+  resolveThinking(_requestPayload, requested, _defaultBudget, state) {
+    if ((requested?.thinkingBudget ?? 0) > 0) {
+      state.context.adjustments.push(
+        `thinkingBudget ${requested?.thinkingBudget} dropped (GPT-OSS reasoning effort is set by the model variant)`,
+      );
+    }
+    return undefined;
+  },
+
+  normalizeTools(requestPayload, state) {
+    if (extractGroundingTools(requestPayload).length > 0) {
+      state.context.adjustments.push("googleSearch tool dropped (not supported by GPT-OSS models)");
+    }
+    if (extractCodeExecutionTools(requestPayload)) {
+      state.context.localError ??= {
+        code: 400,
+        status: "INVALID_ARGUMENT",
+        message: codeExecutionUnsupportedMessage(state.model),
+      };
+    }
+    normalizeGeminiTools(requestPayload, state);
+  },
+
+  finalizeContents(contents) {
+    return contents
+      .map((content: any) => {
+        if (!content || !Array.isArray(content.parts)) {
+          return content;
+        }
+        return { ...content, parts: content.parts.filter((part: any) => !isReasoningPart(part)) };
+      })
+      .filter((content: any) => !Array.isArray(content?.parts) || content.parts.length > 0);
+  },
+
+  applyPromptCache(requestPayload, state) {
+    stripCacheHints(requestPayload, state.context.adjustments);
+  },
+
+  normalizeResponse(response) {
+    return response;
+  },
+};
@@ -0,0 +1,30 @@
+import { getModelFamily, type ModelFamily } from "../models";
+import { claudeAdapter } from "./claude";
+import { geminiAdapter } from "./gemini";
+import { gptOssAdapter } from "./gpt-oss";
+import type { ModelFamilyAdapter } from "./types";
+
+export type { AdapterRequestState, ModelFamilyAdapter, ToolDebugState } from "./types";
+
+/**
+ * Adapters keyed by model family. A new family needs its own adapter here and in `ModelFamily`.
+ */
+const MODEL_FAMILY_ADAPTERS: Readonly<Record<ModelFamily, ModelFamilyAdapter>> = {
+  gemini: geminiAdapter,
+  claude: claudeAdapter,
+  "gpt-oss": gptOssAdapter,
+};
+
+/**
+ * Returns the adapter for a model family.
+ */
+export function getFamilyAdapter(family: ModelFamily): ModelFamilyAdapter {
+  return MODEL_FAMILY_ADAPTERS[family];
+}
+
+/**
+ * Returns the adapter for a model ID.
+ */
+export function getModelAdapter(model: string): ModelFamilyAdapter {
+  return getFamilyAdapter(getModelFamily(model));
+}
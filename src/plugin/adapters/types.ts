@@ -0,0 +1,54 @@
+import type { ModelFamily } from "../models";
+import type { AntigravityRequestContext } from "../request";
+import type { ThinkingConfig } from "../request-helpers";
+
+/**
+ * Tool normalization diagnostics surfaced in debug headers and error messages.
+ */
+export interface ToolDebugState {
+  missing: number;
+  summaries: string[];
+}
+
+/**
+ * State shared by the adapter steps while one request is prepared.
+ */
+export interface AdapterRequestState {
+  model: string;
+  conversationKey?: string;
+  context: AntigravityRequestContext;
+  toolDebug: ToolDebugState;
+}
+
+/**
+ * Request and response shaping for one model family. `prepareAntigravityRequest` runs the
+ * request steps in declaration order; `transformAntigravityResponse` runs `normalizeResponse`
+ * on every inner response object after the shared rewrites.
+ */
+export interface ModelFamilyAdapter {
+  readonly family: ModelFamily;
+  /** Builds the `systemInstruction` sent upstream from the merged system parts. */
+  shapeSystemInstruction(parts: any[], state: AdapterRequestState): Record<string, unknown> | undefined;
+  /** Restores history state the client dropped (signed thinking blocks, thought signatures). */
+  restoreHistory(requestPayload: Record<string, unknown>, state: AdapterRequestState): void;
+  /** Rewrites structured-output settings into a form the family honors. */
+  prepareStructuredOutput(requestPayload: Record<string, unknown>, state: AdapterRequestState): void;
+  /**
+   * Decides the thinking config to send, or undefined to send none. `requested` is what the
+   * caller asked for; `defaultBudget` applies to thinking models when the caller is silent.
+   */
+  resolveThinking(
+    requestPayload: Record<string, unknown>,
+    requested: ThinkingConfig | undefined,
+    defaultBudget: number,
+    state: AdapterRequestState,
+  ): ThinkingConfig | undefined;
+  /** Normalizes tool declarations and tool-choice config. */
+  normalizeTools(requestPayload: Record<string, unknown>, state: AdapterRequestState): void;
+  /** Final fix-ups on contents once tool names are mapped. */
+  finalizeContents(contents: any[], state: AdapterRequestState): any[];
+  /** Places or removes prompt-cache breakpoints once the prompt is final. */
+  applyPromptCache(requestPayload: Record<string, unknown>, state: AdapterRequestState): void;
+  /** Family-specific handling of a response object (thinking capture, signature recording). */
+  normalizeResponse(response: unknown, context: AntigravityRequestContext): unknown;
+}
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { fetchWithEmulatedCandidates, mergeCandidateBodies, resolveCandidateEmulation } from "./candidates";
+
+function body(text: string, promptTokenCount: number, candidatesTokenCount: number) {
+  return {
+    response: {
+      candidates: [{ index: 0, content: { role: "model", parts: [{ text }] }, finishReason: "STOP" }],
+      usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount },
+      modelVersion: "claude-sonnet-4-5",
+    },
+    traceId: "trace",
+  };
+}
+
+describe("resolveCandidateEmulation", () => {
+  it("emulates candidateCount for Claude and leaves Gemini untouched", () => {
+    const adjustments: string[] = [];
+    const claudeConfig: Record<string, unknown> = { candidateCount: 3 };
+    const geminiConfig: Record<string, unknown> = { candidateCount: 3 };
+
+    expect(resolveCandidateEmulation(claudeConfig, "claude-sonnet-4-5", false, adjustments)).toBe(3);
+    expect(claudeConfig).toEqual({});
+    expect(resolveCandidateEmulation(geminiConfig, "gemini-3-pro-high", false, adjustments)).toBeUndefined();
+    expect(geminiConfig).toEqual({ candidateCount: 3 });
+    expect(adjustments).toEqual(["candidateCount 3 emulated with 3 parallel requests"]);
+  });
+
+  it("drops candidateCount for streaming requests", () => {
+    const adjustments: string[] = [];
+    const config: Record<string, unknown> = { candidateCount: 2 };
+
+    expect(resolveCandidateEmulation(config, "claude-sonnet-4-5", true, adjustments)).toBeUndefined();
+    expect(config).toEqual({});
+    expect(adjustments).toEqual(["candidateCount 2 dropped (only emulated for non-streaming requests)"]);
+  });
+});
+
+describe("mergeCandidateBodies", () => {
+  it("indexes candidates by request and sums usage metadata", () => {
+    const merged = mergeCandidateBodies([body("a", 100, 10), body("b", 100, 20)]);
+
+    expect(merged.traceId).toBe("trace");
+    expect(merged.response.modelVersion).toBe("claude-sonnet-4-5");
+    expect(merged.response.candidates.map((candidate: any) => [candidate.index, candidate.content.parts[0].text]))
+      .toEqual([[0, "a"], [1, "b"]]);
+    expect(merged.response.usageMetadata).toEqual({
+      promptTokenCount: 200,
+      candidatesTokenCount: 30,
+      totalTokenCount: 230,
+    });
+  });
+});
+
+describe("fetchWithEmulatedCandidates", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends parallel requests and merges their candidates", async () => {
+    let call = 0;
+    const fetchMock = vi.fn(async () => {
+      call += 1;
+      return new Response(JSON.stringify(body(`sample ${call}`, 5, 1)), {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await fetchWithEmulatedCandidates("https://example.test", { method: "POST", body: "{}" }, 3);
+    const merged = await response.json() as any;
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(merged.response.candidates).toHaveLength(3);
+    expect(merged.response.usageMetadata.totalTokenCount).toBe(18);
+  });
+
+  it("returns the first failed response unchanged", async () => {
+    let call = 0;
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      call += 1;
+      return call === 2
+        ? new Response("{\"error\":{\"code\":429}}", { status: 429, headers: { "content-type": "application/json" } })
+        : new Response(JSON.stringify(body("ok", 1, 1)), { status: 200, headers: { "content-type": "application/json" } });
+    }));
+
+    const response = await fetchWithEmulatedCandidates("https://example.test", { method: "POST", body: "{}" }, 2);
+
+    expect(response.status).toBe(429);
+  });
+
+  it("gives each copy its own requestId", async () => {
+    const fetchMock = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) =>
+      new Response(JSON.stringify(body("ok", 1, 1)), { status: 200, headers: { "content-type": "application/json" } }));
+    vi.stubGlobal("fetch", fetchMock);
+    const wrapped = JSON.stringify({ requestId: "agent-original", request: { sessionId: "session-1" } });
+
+    await fetchWithEmulatedCandidates("https://example.test", { method: "POST", body: wrapped }, 3);
+
+    const sent = fetchMock.mock.calls.map(([, init]) => JSON.parse(init!.body as string));
+    expect(sent[0].requestId).toBe("agent-original");
+    expect(new Set(sent.map((entry) => entry.requestId)).size).toBe(3);
+    expect(sent.every((entry) => entry.request.sessionId === "session-1")).toBe(true);
+  });
+
+  it("aborts the other requests and cancels their bodies when one fails", async () => {
+    const signals: AbortSignal[] = [];
+    const cancel = vi.fn(async () => undefined);
+    let call = 0;
+    vi.stubGlobal("fetch", vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      call += 1;
+      signals.push(init!.signal!);
+      if (call === 1) {
+        const response = new Response(JSON.stringify(body("ok", 1, 1)), { status: 200, headers: { "content-type": "application/json" } });
+        vi.spyOn(response.body!, "cancel").mockImplementation(cancel);
+        return response;
+      }
+      if (call === 2) {
+        return new Response("{\"error\":{\"code\":429}}", { status: 429, headers: { "content-type": "application/json" } });
+      }
+      return new Promise<Response>((_resolve, reject) => {
+        init!.signal!.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+      });
+    }));
+
+    const response = await fetchWithEmulatedCandidates("https://example.test", { method: "POST", body: "{}" }, 3);
+
+    expect(response.status).toBe(429);
+    expect(signals.map((signal) => signal.aborted)).toEqual([true, false, true]);
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the failed response readable after aborting the others", async () => {
+    let call = 0;
+    vi.stubGlobal("fetch", vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      call += 1;
+      if (call === 1) {
+        return new Response(JSON.stringify(body("ok", 1, 1)), { status: 200, headers: { "content-type": "application/json" } });
+      }
+      // Like a real connection, reading the body fails once the request's signal is aborted.
+      const signal = init!.signal!;
+      const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          if (signal.aborted) {
+            controller.error(new DOMException("aborted", "AbortError"));
+            return;
+          }
+          controller.enqueue(new TextEncoder().encode("{\"error\":{\"code\":503}}"));
+          controller.close();
+        },
+      });
+      return new Response(stream, { status: 503, headers: { "content-type": "application/json" } });
+    }));
+
+    const response = await fetchWithEmulatedCandidates("https://example.test", { method: "POST", body: "{}" }, 2);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ error: { code: 503 } });
+  });
+});
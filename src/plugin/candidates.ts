@@ -0,0 +1,175 @@
+import { randomUUID } from "node:crypto";
+
+import { supportsMultipleCandidates } from "./models";
+
+/**
+ * Most candidates emulated for one request, matching Gemini's own `candidateCount` limit.
+ */
+const MAX_EMULATED_CANDIDATES = 8;
+
+/**
+ * Removes `candidateCount` from `generationConfig` when the model only returns one candidate,
+ * returning how many parallel requests should emulate it (undefined when no emulation is
+ * needed). Streaming responses cannot be merged, so for them the setting is dropped.
+ */
+export function resolveCandidateEmulation(
+  generationConfig: Record<string, unknown>,
+  model: string,
+  streaming: boolean,
+  adjustments: string[],
+): number | undefined {
+  const requested = generationConfig.candidateCount;
+  if (typeof requested !== "number" || !Number.isInteger(requested) || requested <= 1 ||
+    supportsMultipleCandidates(model)) {
+    return undefined;
+  }
+  delete generationConfig.candidateCount;
+
+  if (streaming) {
+    adjustments.push(`candidateCount ${requested} dropped (only emulated for non-streaming requests)`);
+    return undefined;
+  }
+  const count = Math.min(requested, MAX_EMULATED_CANDIDATES);
+  adjustments.push(
+    count < requested
+      ? `candidateCount ${requested} -> ${count} (emulated with ${count} parallel requests)`
+      : `candidateCount ${requested} emulated with ${count} parallel requests`,
+  );
+  return count;
+}
+
+function sumUsage(usages: Record<string, unknown>[]): Record<string, unknown> | undefined {
+  if (usages.length === 0) {
+    return undefined;
+  }
+  const total: Record<string, unknown> = {};
+  for (const usage of usages) {
+    for (const [key, value] of Object.entries(usage)) {
+      if (typeof value === "number") {
+        total[key] = (typeof total[key] === "number" ? total[key] as number : 0) + value;
+      } else if (!(key in total)) {
+        total[key] = value;
+      }
+    }
+  }
+  return total;
+}
+
+/**
+ * Merges Antigravity `{ response }` bodies of parallel requests into one body whose
+ * `candidates` hold each request's candidate with its index set to the request position.
+ * Numeric usage metadata fields are summed; other fields come from the first body.
+ */
+export function mergeCandidateBodies(bodies: Record<string, any>[]): Record<string, any> {
+  const [first = {}] = bodies;
+  const responses = bodies.map((body) => (body?.response && typeof body.response === "object" ? body.response : {}));
+  const candidates = responses.flatMap((response, index) =>
+    (Array.isArray(response.candidates) ? response.candidates.slice(0, 1) : []).map((candidate: any) => ({
+      ...candidate,
+      index,
+    })),
+  );
+  const usageMetadata = sumUsage(
+    responses.map((response) => response.usageMetadata).filter((usage) => usage && typeof usage === "object"),
+  );
+
+  return {
+    ...first,
+    response: {
+      ...(responses[0] ?? {}),
+      candidates,
+      ...(usageMetadata ? { usageMetadata } : {}),
+    },
+  };
+}
+
+/**
+ * Builds the body of each copy: copies after the first get their own `requestId`, so upstream
+ * logs and deduplication see distinct requests within the same session.
+ */
+function copyBodies(body: RequestInit["body"], count: number): RequestInit["body"][] {
+  let parsed: Record<string, unknown> | undefined;
+  if (typeof body === "string") {
+    try {
+      parsed = JSON.parse(body) as Record<string, unknown>;
+    } catch {
+      parsed = undefined;
+    }
+  }
+  return Array.from({ length: count }, (_, index) =>
+    index > 0 && parsed && typeof parsed === "object" && typeof parsed.requestId === "string"
+      ? JSON.stringify({ ...parsed, requestId: `agent-${randomUUID()}` })
+      : body,
+  );
+}
+
+function isMergeable(response: Response): boolean {
+  return response.ok && (response.headers.get("content-type") ?? "").includes("application/json");
+}
+
+/**
+ * Sends `count` requests in parallel and merges their candidates into one JSON response. The
+ * first unsuccessful or non-JSON response is returned as is, so retries and error handling
+ * behave as for a single request; the other requests are aborted and their bodies cancelled.
+ * Each request has its own abort controller so the returned response stays readable.
+ */
+export async function fetchWithEmulatedCandidates(
+  request: RequestInfo,
+  init: RequestInit,
+  count: number,
+): Promise<Response> {
+  const controllers = Array.from({ length: count }, () => new AbortController());
+  let failure: { index: number; response?: Response; error?: unknown } | undefined;
+  const fail = (outcome: { index: number; response?: Response; error?: unknown }) => {
+    if (failure) {
+      return;
+    }
+    failure = outcome;
+    controllers.forEach((controller, index) => {
+      if (index !== outcome.index) {
+        controller.abort();
+      }
+    });
+  };
+
+  const responses = await Promise.all(
+    copyBodies(init.body, count).map(async (body, index) => {
+      const own = controllers[index]!.signal;
+      const signal = init.signal ? AbortSignal.any([init.signal, own]) : own;
+      try {
+        const response = await fetch(request, { ...init, body, signal });
+        if (!isMergeable(response)) {
+          fail({ index, response });
+        }
+        return response;
+      } catch (error) {
+        fail({ index, error });
+        return undefined;
+      }
+    }),
+  );
+
+  if (failure) {
+    for (const response of responses) {
+      if (response && response !== failure.response) {
+        void response.body?.cancel().catch(() => undefined);
+      }
+    }
+    if (failure.response) {
+      return failure.response;
+    }
+    throw failure.error;
+  }
+
+  const bodies = await Promise.all(
+    (responses as Response[]).map((response) => response.json() as Promise<Record<string, any>>),
+  );
+  const [first] = responses as [Response, ...Response[]];
+  const headers = new Headers(first.headers);
+  headers.delete("content-length");
+  return new Response(JSON.stringify(mergeCandidateBodies(bodies)), {
+    status: first.status,
+    statusText: first.statusText,
+    headers,
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Tool keys that enable Gemini's built-in code execution.
+ */
+const CODE_EXECUTION_TOOL_KEYS = ["codeExecution", "code_execution"] as const;
+
+function isCodeExecutionTool(tool: unknown): boolean {
+  return !!tool && typeof tool === "object" && CODE_EXECUTION_TOOL_KEYS.some((key) => key in tool);
+}
+
+/**
+ * Removes code execution tools from `requestPayload.tools`, returning whether any were present.
+ */
+export function extractCodeExecutionTools(requestPayload: Record<string, unknown>): boolean {
+  if (!Array.isArray(requestPayload.tools) || !requestPayload.tools.some(isCodeExecutionTool)) {
+    return false;
+  }
+  requestPayload.tools = requestPayload.tools.filter((tool) => !isCodeExecutionTool(tool));
+  return true;
+}
+
+/**
+ * Message for models that cannot run code through Antigravity.
+ */
+export function codeExecutionUnsupportedMessage(model: string): string {
+  return `${model} does not support the codeExecution tool through Antigravity. Remove the tool or use a Gemini model.`;
+}
+
+function languageTag(language: unknown): string {
+  return typeof language === "string" && language !== "LANGUAGE_UNSPECIFIED" ? language.toLowerCase() : "";
+}
+
+/**
+ * Renders one code execution part as markdown text, keeping any thought signature.
+ */
+function renderPart(part: any): any {
+  const { executableCode, codeExecutionResult, ...rest } = part;
+  if (executableCode) {
+    const code = typeof executableCode.code === "string" ? executableCode.code : "";
+    return { ...rest, text: `\n\`\`\`${languageTag(executableCode.language)}\n${code}\n\`\`\`\n` };
+  }
+  const output = typeof codeExecutionResult.output === "string" ? codeExecutionResult.output.replace(/\n$/, "") : "";
+  const outcome = codeExecutionResult.outcome;
+  const label = outcome && outcome !== "OUTCOME_OK"
+    ? `Execution failed (${outcome}):`
+    : "Output:";
+  return { ...rest, text: `\n${label}\n\`\`\`\n${output}\n\`\`\`\n` };
+}
+
+/**
+ * Converts `executableCode` and `codeExecutionResult` parts into markdown text parts, which
+ * opencode displays; it has no rendering for the raw parts.
+ */
+export function renderCodeExecutionParts(response: unknown): unknown {
+  if (!response || typeof response !== "object") {
+    return response;
+  }
+  const resp = response as Record<string, unknown>;
+  if (!Array.isArray(resp.candidates)) {
+    return response;
+  }
+
+  let changed = false;
+  const candidates = resp.candidates.map((candidate: any) => {
+    const parts = candidate?.content?.parts;
+    if (!Array.isArray(parts) || !parts.some((part: any) => part?.executableCode || part?.codeExecutionResult)) {
+      return candidate;
+    }
+    changed = true;
+    return {
+      ...candidate,
+      content: {
+        ...candidate.content,
+        parts: parts.map((part: any) => (part?.executableCode || part?.codeExecutionResult ? renderPart(part) : part)),
+      },
+    };
+  });
+
+  return changed ? { ...resp, candidates } : response;
+}
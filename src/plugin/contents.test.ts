@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+import { normalizeContents } from "./contents";
+
+describe("normalizeContents", () => {
+  it("renames roles, drops empty parts and merges same-role turns", () => {
+    const result = normalizeContents([
+      { role: "user", parts: [{ text: "first" }] },
+      { role: "user", parts: [{ text: "" }, { text: "second" }] },
+      { role: "assistant", parts: [{ text: "reply" }] },
+      { role: "model", parts: [{ text: "  " }] },
+    ]);
+
+    expect(result.contents).toEqual([
+      { role: "user", parts: [{ text: "first" }, { text: "second" }] },
+      { role: "model", parts: [{ text: "reply" }] },
+    ]);
+    expect(result.fixes).toEqual([
+      "renamed 1 turn with role assistant to model",
+      "removed 2 empty parts",
+      "removed 1 empty turn",
+      "merged 1 turn into the preceding same-role turn",
+    ]);
+  });
+
+  it("wraps non-object function responses and starts with a user turn", () => {
+    const result = normalizeContents([
+      { role: "model", parts: [{ functionCall: { name: "ls", args: {} } }] },
+      { role: "tool", parts: [{ functionResponse: { name: "ls", response: ["a", "b"] } }] },
+    ]);
+
+    expect(result.contents).toEqual([
+      { role: "user", parts: [{ text: "Continue." }] },
+      { role: "model", parts: [{ functionCall: { name: "ls", args: {} } }] },
+      { role: "user", parts: [{ functionResponse: { name: "ls", response: { output: ["a", "b"] } } }] },
+    ]);
+    expect(result.fixes).toContain("inserted a leading user turn");
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Role aliases clients send in place of Gemini's `user` / `model`.
+ */
+const ROLE_ALIASES: Readonly<Record<string, "user" | "model">> = {
+  user: "user",
+  human: "user",
+  tool: "user",
+  function: "user",
+  model: "model",
+  assistant: "model",
+  ai: "model",
+  bot: "model",
+};
+
+/**
+ * Placeholder opening turn for histories that start with a model turn.
+ */
+const LEADING_USER_TEXT = "Continue.";
+
+/**
+ * Whether a part carries nothing the model could use (empty text without a signature, or no
+ * fields at all).
+ */
+function isEmptyPart(part: unknown): boolean {
+  if (!part || typeof part !== "object") {
+    return true;
+  }
+  const record = part as Record<string, unknown>;
+  if (Object.keys(record).length === 0) {
+    return true;
+  }
+  if (typeof record.text === "string" && record.text.trim() === "") {
+    // Signed (thinking) parts are kept even when their text is empty.
+    const others = Object.keys(record).filter((key) => key !== "text" && key !== "thought");
+    return others.length === 0;
+  }
+  return false;
+}
+
+/**
+ * Wraps a functionResponse payload that is not a plain object, since the API expects a Struct.
+ */
+function wrapFunctionResponse(part: any): { part: any; wrapped: boolean } {
+  const response = part?.functionResponse?.response;
+  if (response && typeof response === "object" && !Array.isArray(response)) {
+    return { part, wrapped: false };
+  }
+  return {
+    part: { ...part, functionResponse: { ...part.functionResponse, response: { output: response ?? null } } },
+    wrapped: true,
+  };
+}
+
+function describeCount(count: number, singular: string): string {
+  return `${count} ${singular}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Normalizes a request history so it satisfies the strictest upstream (Claude):
+ * role aliases become `user` / `model`, empty parts and turns are removed, non-object
+ * functionResponse payloads are wrapped as `{ output }`, adjacent same-role turns are merged,
+ * and the conversation starts with a user turn. Returns the normalized contents and a
+ * description of every kind of fix applied. Entries with roles it does not know (e.g. `system`)
+ * are left in place.
+ */
+export function normalizeContents(contents: any[]): { contents: any[]; fixes: string[] } {
+  const fixes: string[] = [];
+  const renamedRoles = new Map<string, number>();
+  let removedParts = 0;
+  let removedTurns = 0;
+  let wrappedResponses = 0;
+  let mergedTurns = 0;
+
+  const normalized: any[] = [];
+  for (const content of contents) {
+    if (!content || typeof content !== "object") {
+      removedTurns += 1;
+      continue;
+    }
+
+    const rawRole = typeof content.role === "string" ? content.role.trim().toLowerCase() : "";
+    let role = content.role;
+    if (rawRole === "") {
+      role = "user";
+      renamedRoles.set("(missing)", (renamedRoles.get("(missing)") ?? 0) + 1);
+    } else if (ROLE_ALIASES[rawRole]) {
+      role = ROLE_ALIASES[rawRole];
+      if (role !== content.role) {
+        renamedRoles.set(String(content.role), (renamedRoles.get(String(content.role)) ?? 0) + 1);
+      }
+    }
+
+    const rawParts: unknown[] = Array.isArray(content.parts) ? content.parts : [];
+    const parts = rawParts
+      .filter((part) => {
+        const empty = isEmptyPart(part);
+        if (empty) {
+          removedParts += 1;
+        }
+        return !empty;
+      })
+      .map((part: any) => {
+        if (!part.functionResponse) {
+          return part;
+        }
+        const result = wrapFunctionResponse(part);
+        if (result.wrapped) {
+          wrappedResponses += 1;
+        }
+        return result.part;
+      });
+
+    if (parts.length === 0) {
+      removedTurns += 1;
+      continue;
+    }
+
+    const previous = normalized[normalized.length - 1];
+    if (previous && previous.role === role && (role === "user" || role === "model")) {
+      previous.parts = [...previous.parts, ...parts];
+      mergedTurns += 1;
+      continue;
+    }
+    normalized.push({ ...content, role, parts });
+  }
+
+  for (const [from, count] of renamedRoles) {
+    const to = from === "(missing)" ? "user" : ROLE_ALIASES[from.trim().toLowerCase()];
+    fixes.push(`renamed ${describeCount(count, "turn")} with role ${from} to ${to}`);
+  }
+  if (removedParts > 0) {
+    fixes.push(`removed ${describeCount(removedParts, "empty part")}`);
+  }
+  if (removedTurns > 0) {
+    fixes.push(`removed ${describeCount(removedTurns, "empty turn")}`);
+  }
+  if (wrappedResponses > 0) {
+    fixes.push(`wrapped ${describeCount(wrappedResponses, "non-object functionResponse")} as { output }`);
+  }
+  if (mergedTurns > 0) {
+    fixes.push(`merged ${describeCount(mergedTurns, "turn")} into the preceding same-role turn`);
+  }
+
+  const first = normalized.find((content) => content.role === "user" || content.role === "model");
+  if (first?.role === "model") {
+    normalized.splice(normalized.indexOf(first), 0, { role: "user", parts: [{ text: LEADING_USER_TEXT }] });
+    fixes.push("inserted a leading user turn");
+  }
+
+  return { contents: normalized, fixes };
+}
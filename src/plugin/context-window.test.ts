@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+
+import { enforceContextWindow } from "./context-window";
+
+const MODEL = "claude-sonnet-4-5";
+
+/**
+ * Claude reserves the requested output inside its 200k window, so a large `maxOutputTokens`
+ * leaves a prompt budget of 10000 tokens (~40k characters) for these tests; compaction aims
+ * for 9000.
+ */
+function buildPayload(contents: unknown[]): Record<string, unknown> {
+  return {
+    contents,
+    generationConfig: { maxOutputTokens: 190000 },
+  };
+}
+
+function exchange(prompt: string, output: string): unknown[] {
+  return [
+    { role: "user", parts: [{ text: prompt }] },
+    { role: "model", parts: [{ functionCall: { id: `call-${prompt}`, name: "read", args: {} } }] },
+    {
+      role: "user",
+      parts: [{ functionResponse: { id: `call-${prompt}`, name: "read", response: { output } } }],
+    },
+    { role: "model", parts: [{ text: "done" }] },
+  ];
+}
+
+describe("enforceContextWindow", () => {
+  it("leaves prompts that fit untouched", () => {
+    const payload = buildPayload(exchange("a", "small"));
+    const contents = payload.contents;
+
+    expect(enforceContextWindow(payload, MODEL, undefined, "compact")).toEqual({ adjustments: [] });
+    expect(payload.contents).toBe(contents);
+  });
+
+  it("shortens large tool outputs with the tool-result elision marker", () => {
+    const payload = buildPayload([...exchange("a", "x".repeat(50000)), { role: "user", parts: [{ text: "next" }] }]);
+
+    const result = enforceContextWindow(payload, MODEL, undefined, "truncate-tools");
+
+    expect(result.error).toBeUndefined();
+    expect(result.adjustments).toEqual(["truncated 1 tool output(s) (read) to 2000 characters to fit the context window"]);
+    const response = (payload.contents as any[])[2].parts[0].functionResponse.response;
+    expect(response.output).toMatch(/^x+\n\[\.\.\. \d+ characters elided \.\.\.\]\nx+$/);
+    expect(JSON.stringify(response).length).toBeLessThanOrEqual(2000);
+  });
+
+  it("drops the oldest exchanges whole so tool calls stay paired", () => {
+    const payload = buildPayload([
+      ...exchange("a", "x".repeat(30000)),
+      ...exchange("b", "y".repeat(30000)),
+      { role: "user", parts: [{ text: "latest" }] },
+    ]);
+
+    const result = enforceContextWindow(payload, MODEL, undefined, "drop-oldest");
+
+    expect(result.error).toBeUndefined();
+    expect(result.adjustments).toEqual(["dropped 4 oldest turn(s) to fit the context window"]);
+    const contents = payload.contents as any[];
+    expect(contents).toHaveLength(5);
+    expect(contents[0]).toEqual({ role: "user", parts: [{ text: "b" }] });
+  });
+
+  it("sends over-long prompts unchanged by default", () => {
+    delete process.env.OPENCODE_ANTIGRAVITY_CONTEXT_POLICY;
+    const payload = buildPayload([
+      ...exchange("a", "x".repeat(30000)),
+      { role: "user", parts: [{ text: "z".repeat(40000) }] },
+    ]);
+    const contents = payload.contents;
+
+    expect(enforceContextWindow(payload, MODEL)).toEqual({ adjustments: [] });
+    expect(payload.contents).toBe(contents);
+  });
+
+  it("truncates tool outputs without dropping history, then rejects what still does not fit", () => {
+    const payload = buildPayload([
+      ...exchange("a", "x".repeat(30000)),
+      { role: "user", parts: [{ text: "z".repeat(40000) }] },
+    ]);
+
+    const result = enforceContextWindow(payload, MODEL, undefined, "truncate-tools");
+
+    expect(result.adjustments).toEqual(["truncated 1 tool output(s) (read) to 2000 characters to fit the context window"]);
+    expect(result.error).toMatch(/exceeds the 10000-token prompt budget .*context-window policy: truncate-tools/);
+    expect(payload.contents).toHaveLength(5);
+  });
+
+  it("reserves a typical reply rather than the whole output limit when maxOutputTokens is unset", () => {
+    const prompt = [{ role: "user", parts: [{ text: "z".repeat(680000) }] }];
+
+    expect(enforceContextWindow({ contents: prompt }, MODEL, undefined, "fail").error).toBeUndefined();
+    expect(
+      enforceContextWindow({ contents: prompt, generationConfig: { thinkingConfig: { thinkingBudget: 32768 } } }, MODEL, undefined, "fail").error,
+    ).toMatch(/about 170000 tokens, which exceeds the 159040-token prompt budget/);
+  });
+
+  it("fails fast with the estimate and budget", () => {
+    const payload = buildPayload([{ role: "user", parts: [{ text: "z".repeat(44000) }] }]);
+
+    const result = enforceContextWindow(payload, MODEL, undefined, "fail");
+
+    expect(result.error).toBe(
+      "Prompt is about 11000 tokens, which exceeds the 10000-token prompt budget of claude-sonnet-4-5 (context-window policy: fail).",
+    );
+  });
+
+  it("does not reject estimates within the budget's estimation headroom", () => {
+    const payload = buildPayload([{ role: "user", parts: [{ text: "z".repeat(38000) }] }]);
+
+    expect(enforceContextWindow(payload, MODEL, undefined, "fail")).toEqual({ adjustments: [] });
+  });
+});
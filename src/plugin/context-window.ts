@@ -0,0 +1,279 @@
+import { env } from "node:process";
+
+import { getModelFamily, getModelInfo } from "./models";
+import { shortenToolResult } from "./tool-result-limits";
+import { resolveOriginalToolName, type ToolNameMapping } from "./tool-names";
+
+/**
+ * How an over-long prompt is handled before it is sent:
+ * - `compact`: truncate large tool outputs, then drop the oldest exchanges,
+ * - `truncate-tools`: only truncate large tool outputs, then reject the request,
+ * - `drop-oldest`: only drop the oldest exchanges,
+ * - `fail`: reject the request locally,
+ * - `off`: send the request unchanged (default; the estimate is rough, so changing or rejecting
+ *   requests is opt-in).
+ */
+export type ContextWindowPolicy = "compact" | "truncate-tools" | "drop-oldest" | "fail" | "off";
+
+const CONTEXT_WINDOW_POLICIES: readonly ContextWindowPolicy[] = [
+  "compact",
+  "truncate-tools",
+  "drop-oldest",
+  "fail",
+  "off",
+];
+
+/**
+ * Rough characters-per-token ratio used for the local estimate.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Flat token cost assumed for each inline or file attachment, whose size in base64 says
+ * little about its token count.
+ */
+const ATTACHMENT_TOKENS = 1600;
+
+/**
+ * Share of the prompt budget compaction aims for; leaves headroom for estimation error. Requests
+ * are only rejected when the estimate exceeds the whole budget.
+ */
+const ESTIMATE_HEADROOM = 0.9;
+
+/**
+ * Serialized size tool outputs are cut down to when the prompt does not fit. Much smaller than
+ * the per-result limit applied to every request, since it only applies under context pressure.
+ */
+const TRUNCATED_TOOL_OUTPUT_CHARS = 2000;
+
+/**
+ * Output tokens reserved for Claude when the request leaves `maxOutputTokens` unset, on top of
+ * the thinking budget; about what a reply uses, rather than the model's whole output limit.
+ */
+const DEFAULT_RESERVED_OUTPUT_TOKENS = 8192;
+
+/**
+ * Result of guarding one request: the description of each change made, or an error message
+ * when the prompt still does not fit.
+ */
+export interface ContextWindowResult {
+  adjustments: string[];
+  error?: string;
+}
+
+/**
+ * Reads the configured policy from `OPENCODE_ANTIGRAVITY_CONTEXT_POLICY`.
+ */
+export function resolveContextWindowPolicy(): ContextWindowPolicy {
+  const value = env.OPENCODE_ANTIGRAVITY_CONTEXT_POLICY?.trim().toLowerCase();
+  return CONTEXT_WINDOW_POLICIES.find((policy) => policy === value) ?? "off";
+}
+
+function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function estimatePartTokens(part: any): number {
+  if (!part || typeof part !== "object") {
+    return 0;
+  }
+  if (typeof part.text === "string") {
+    return estimateTextTokens(part.text);
+  }
+  if (part.inlineData || part.fileData) {
+    return ATTACHMENT_TOKENS;
+  }
+  return estimateTextTokens(JSON.stringify(part));
+}
+
+function estimateContentTokens(content: any): number {
+  if (!content || !Array.isArray(content.parts)) {
+    return 0;
+  }
+  return content.parts.reduce((total: number, part: unknown) => total + estimatePartTokens(part), 0);
+}
+
+/**
+ * Estimates the prompt size of a request payload (contents, system instruction and tools).
+ */
+export function estimatePromptTokens(requestPayload: Record<string, unknown>): number {
+  const contents = Array.isArray(requestPayload.contents) ? requestPayload.contents : [];
+  let total = contents.reduce((sum: number, content: unknown) => sum + estimateContentTokens(content), 0);
+
+  const systemInstruction = requestPayload.systemInstruction;
+  if (typeof systemInstruction === "string") {
+    total += estimateTextTokens(systemInstruction);
+  } else if (systemInstruction && typeof systemInstruction === "object") {
+    total += estimateContentTokens(systemInstruction);
+  }
+
+  if (Array.isArray(requestPayload.tools)) {
+    total += estimateTextTokens(JSON.stringify(requestPayload.tools));
+  }
+  return total;
+}
+
+/**
+ * Token budget available for the prompt. Claude counts the requested output against the
+ * context window (the thinking budget plus a typical reply when `maxOutputTokens` is unset);
+ * Gemini limits input separately.
+ */
+function promptBudget(requestPayload: Record<string, unknown>, model: string): number | undefined {
+  const info = getModelInfo(model);
+  if (!info) {
+    return undefined;
+  }
+  let limit = info.contextLimit;
+  if (getModelFamily(model) === "claude") {
+    const generationConfig = requestPayload.generationConfig as Record<string, unknown> | undefined;
+    const maxOutputTokens = generationConfig?.maxOutputTokens;
+    const thinkingBudget = (generationConfig?.thinkingConfig as Record<string, unknown> | undefined)?.thinkingBudget;
+    limit -= typeof maxOutputTokens === "number"
+      ? maxOutputTokens
+      : Math.min(info.outputLimit, (typeof thinkingBudget === "number" ? thinkingBudget : 0) + DEFAULT_RESERVED_OUTPUT_TOKENS);
+  }
+  return limit;
+}
+
+function isToolResultTurn(content: any): boolean {
+  return Array.isArray(content?.parts) && content.parts.some((part: any) => part?.functionResponse);
+}
+
+/**
+ * A user turn that starts a new exchange (as opposed to one carrying tool results).
+ */
+function isPromptTurn(content: any): boolean {
+  return content?.role === "user" && !isToolResultTurn(content);
+}
+
+/**
+ * Shortens the output of one tool result, keeping a valid object response.
+ */
+function truncateToolOutput(part: any): { part: any; saved: number } | null {
+  const shortened = shortenToolResult(part.functionResponse.response, TRUNCATED_TOOL_OUTPUT_CHARS);
+  if (!shortened) {
+    return null;
+  }
+  const truncated = { ...part, functionResponse: { ...part.functionResponse, response: shortened.response } };
+  return { part: truncated, saved: estimatePartTokens(part) - estimatePartTokens(truncated) };
+}
+
+/**
+ * Truncates tool outputs, oldest first, until the estimate falls to `budget`. Mutates `contents`.
+ */
+function truncateToolOutputs(
+  contents: any[],
+  estimate: number,
+  budget: number,
+  adjustments: string[],
+  toolNames: ToolNameMapping | undefined,
+): number {
+  const truncatedNames: string[] = [];
+  for (let i = 0; i < contents.length && estimate > budget; i++) {
+    const content = contents[i];
+    if (!isToolResultTurn(content)) {
+      continue;
+    }
+    const parts = content.parts.map((part: any) => {
+      if (estimate <= budget || !part?.functionResponse) {
+        return part;
+      }
+      const result = truncateToolOutput(part);
+      if (!result) {
+        return part;
+      }
+      estimate -= result.saved;
+      const name = part.functionResponse.name;
+      truncatedNames.push(typeof name === "string" ? resolveOriginalToolName(toolNames, name) : "tool");
+      return result.part;
+    });
+    contents[i] = { ...content, parts };
+  }
+  if (truncatedNames.length > 0) {
+    adjustments.push(
+      `truncated ${truncatedNames.length} tool output(s) (${Array.from(new Set(truncatedNames)).join(", ")}) ` +
+        `to ${TRUNCATED_TOOL_OUTPUT_CHARS} characters to fit the context window`,
+    );
+  }
+  return estimate;
+}
+
+/**
+ * Drops whole exchanges (a user prompt plus the model and tool turns answering it) from the
+ * start of the conversation until the estimate falls to `budget`, so tool calls and results
+ * stay paired and the conversation still starts with a user turn. The exchange holding the
+ * latest prompt is never dropped. Mutates `contents`.
+ */
+function dropOldestExchanges(contents: any[], estimate: number, budget: number, adjustments: string[]): number {
+  let lastPrompt = -1;
+  for (let i = contents.length - 1; i >= 0; i--) {
+    if (isPromptTurn(contents[i])) {
+      lastPrompt = i;
+      break;
+    }
+  }
+
+  let dropCount = 0;
+  while (estimate > budget && dropCount < lastPrompt) {
+    let end = dropCount + 1;
+    while (end < lastPrompt && !isPromptTurn(contents[end])) {
+      end += 1;
+    }
+    for (let i = dropCount; i < end; i++) {
+      estimate -= estimateContentTokens(contents[i]);
+    }
+    dropCount = end;
+  }
+
+  if (dropCount > 0) {
+    contents.splice(0, dropCount);
+    adjustments.push(`dropped ${dropCount} oldest turn(s) to fit the context window`);
+  }
+  return estimate;
+}
+
+/**
+ * Checks the estimated prompt size against the model's context window and, according to
+ * `policy`, compacts `requestPayload.contents` in place or reports an error. Compaction starts
+ * once the estimate nears the budget; an error is only reported when it exceeds the budget.
+ * Models missing from the catalog are not checked.
+ */
+export function enforceContextWindow(
+  requestPayload: Record<string, unknown>,
+  model: string,
+  toolNames?: ToolNameMapping,
+  policy: ContextWindowPolicy = resolveContextWindowPolicy(),
+): ContextWindowResult {
+  const adjustments: string[] = [];
+  const budget = promptBudget(requestPayload, model);
+  if (policy === "off" || budget === undefined || !Array.isArray(requestPayload.contents)) {
+    return { adjustments };
+  }
+
+  let estimate = estimatePromptTokens(requestPayload);
+  const target = Math.floor(budget * ESTIMATE_HEADROOM);
+  if (estimate <= target) {
+    return { adjustments };
+  }
+  const originalEstimate = estimate;
+
+  const contents = [...requestPayload.contents];
+  if (policy === "compact" || policy === "truncate-tools") {
+    estimate = truncateToolOutputs(contents, estimate, target, adjustments, toolNames);
+  }
+  if (policy === "compact" || policy === "drop-oldest") {
+    estimate = dropOldestExchanges(contents, estimate, target, adjustments);
+  }
+  requestPayload.contents = contents;
+
+  if (estimate <= budget) {
+    return { adjustments };
+  }
+  return {
+    adjustments,
+    error:
+      `Prompt is about ${originalEstimate} tokens` +
+      (estimate !== originalEstimate ? ` (${estimate} after compaction)` : "") +
+      `, which exceeds the ${budget}-token prompt budget of ${model} (context-window policy: ${policy}).`,
+  };
+}
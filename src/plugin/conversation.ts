@@ -0,0 +1,44 @@
+import crypto from "node:crypto";
+
+/**
+ * Collects the plain text of a Gemini-style content or system instruction value.
+ */
+function collectText(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (!value || typeof value !== "object") {
+    return "";
+  }
+  const parts = (value as { parts?: unknown }).parts;
+  if (!Array.isArray(parts)) {
+    return "";
+  }
+  return parts
+    .map((part: any) => (part && typeof part.text === "string" && part.thought !== true ? part.text : ""))
+    .join("");
+}
+
+/**
+ * Derives a stable key for the conversation a request belongs to, from its system instruction
+ * and first user turn. Every turn of the same chat produces the same key. A session ID supplied
+ * by the caller is mixed in, so two chats that open with the same prompt stay apart.
+ */
+export function deriveConversationKey(
+  requestPayload: Record<string, unknown>,
+  callerSessionId?: string,
+): string | undefined {
+  const contents = Array.isArray(requestPayload.contents) ? requestPayload.contents : [];
+  const firstUser = contents.find((content: any) => content?.role === "user" || content?.role === undefined);
+  const system = requestPayload.systemInstruction ?? requestPayload.system_instruction;
+
+  const seed = `${collectText(system)}\u0000${collectText(firstUser)}`;
+  if (seed === "\u0000" && !callerSessionId) {
+    return undefined;
+  }
+  if (callerSessionId) {
+    return crypto.createHash("sha256").update(`${callerSessionId}\u0000${seed}`).digest("hex").slice(0, 32);
+  }
+
+  return crypto.createHash("sha256").update(seed).digest("hex").slice(0, 32);
+}
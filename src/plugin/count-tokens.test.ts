@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import { buildCountTokensBody, toPublicCountTokensResponse } from "./count-tokens";
+
+describe("buildCountTokensBody", () => {
+  it("normalizes contents like generate requests and counts system parts with the first user turn", () => {
+    const adjustments: string[] = [];
+    const body = buildCountTokensBody(
+      {
+        generateContentRequest: {
+          systemInstruction: { parts: [{ text: "Be brief.", cache_control: { type: "ephemeral" } }] },
+          contents: [
+            { role: "user", parts: [{ text: "hi" }] },
+            { role: "user", parts: [{ text: "" }, { text: "there" }] },
+            { role: "assistant", parts: [{ functionCall: { name: "mcp.search", args: {} } }] },
+            { role: "user", parts: [{ functionResponse: { name: "mcp.search", response: "found" } }] },
+          ],
+          generationConfig: { temperature: 0.5 },
+        },
+      },
+      "claude-sonnet-4-5",
+      adjustments,
+    );
+
+    expect(body).toEqual({
+      request: {
+        model: "models/claude-sonnet-4-5",
+        contents: [
+          { role: "user", parts: [{ text: "Be brief." }, { text: "hi" }, { text: "there" }] },
+          { role: "model", parts: [{ functionCall: { name: "mcp_search", args: {} } }] },
+          { role: "user", parts: [{ functionResponse: { name: "mcp_search", response: { output: "found" } } }] },
+        ],
+      },
+    });
+    expect(adjustments).toEqual(expect.arrayContaining([
+      "renamed 1 turn with role assistant to model",
+      "removed 1 empty part",
+    ]));
+  });
+
+  it("adds a user turn for system parts when contents are empty", () => {
+    const body = buildCountTokensBody({ system: "You are terse.", contents: [] }, "gemini-3-pro-high");
+
+    expect(body).toEqual({
+      request: { model: "models/gemini-3-pro-high", contents: [{ role: "user", parts: [{ text: "You are terse." }] }] },
+    });
+  });
+});
+
+describe("toPublicCountTokensResponse", () => {
+  it("unwraps the token count and rejects bodies without one", () => {
+    expect(toPublicCountTokensResponse({ response: { totalTokens: 42 } })).toEqual({ totalTokens: 42 });
+    expect(toPublicCountTokensResponse({ totalTokens: 7 })).toEqual({ totalTokens: 7 });
+    expect(toPublicCountTokensResponse({ error: { code: 400 } })).toBeNull();
+  });
+});
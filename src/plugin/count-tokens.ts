@@ -0,0 +1,63 @@
+import { normalizeContents } from "./contents";
+import { stripCacheHints } from "./prompt-cache";
+import { extractSystemParts } from "./system-instruction";
+import { applyToolNamesToContents, createToolNameMapping } from "./tool-names";
+
+export const COUNT_TOKENS_ACTION = "countTokens";
+
+/**
+ * Converts a public `models/X:countTokens` body into the `v1internal:countTokens` shape.
+ * Accepts both `{ contents }` and `{ generateContentRequest: { contents, systemInstruction } }`.
+ * Contents go through the same normalization and tool-name sanitizing as generate requests, so
+ * the count matches what would be sent. The internal endpoint only takes contents, so system
+ * parts are counted at the start of the first user turn. Generation and thinking config are
+ * intentionally not forwarded.
+ */
+export function buildCountTokensBody(
+  parsedBody: Record<string, unknown>,
+  model: string,
+  adjustments: string[] = [],
+): Record<string, unknown> {
+  const source = parsedBody.generateContentRequest && typeof parsedBody.generateContentRequest === "object"
+    ? parsedBody.generateContentRequest as Record<string, unknown>
+    : parsedBody;
+
+  const request = { ...source };
+  const systemParts = extractSystemParts(request);
+  const normalized = normalizeContents(Array.isArray(request.contents) ? request.contents : []);
+  adjustments.push(...normalized.fixes);
+  const contents = applyToolNamesToContents(normalized.contents, createToolNameMapping());
+  if (systemParts.length > 0) {
+    const [first] = contents;
+    if (first?.role === "user") {
+      contents[0] = { ...first, parts: [...systemParts, ...first.parts] };
+    } else {
+      contents.unshift({ role: "user", parts: systemParts });
+    }
+  }
+  // Prompt-cache hints only matter for generation requests
+  const counted: Record<string, unknown> = { contents };
+  stripCacheHints(counted, []);
+
+  return {
+    request: {
+      model: `models/${model}`,
+      contents: counted.contents,
+    },
+  };
+}
+
+/**
+ * Translates an internal countTokens response back to the public `{ totalTokens }` format.
+ * Returns null when the body carries no token count (e.g. error payloads).
+ */
+export function toPublicCountTokensResponse(body: Record<string, unknown>): { totalTokens: number } | null {
+  const inner = body.response && typeof body.response === "object"
+    ? body.response as Record<string, unknown>
+    : body;
+  const totalTokens = inner.totalTokens;
+  if (typeof totalTokens !== "number" || !Number.isFinite(totalTokens)) {
+    return null;
+  }
+  return { totalTokens };
+}
@@ -22,6 +22,10 @@ interface AntigravityDebugRequestMeta {
   body?: BodyInit | null;
   streaming: boolean;
   projectId?: string;
+  sessionId?: string;
+  turn?: number;
+  adjustments?: string[];
+  thinking?: string;
 }
 
 interface AntigravityDebugResponseMeta {
@@ -50,7 +54,16 @@ export function startAntigravityDebugRequest(meta: AntigravityDebugRequestMeta):
   if (meta.projectId) {
     logDebug(`[Antigravity Debug ${id}] Project: ${meta.projectId}`);
   }
+  if (meta.sessionId) {
+    logDebug(`[Antigravity Debug ${id}] Session: ${meta.sessionId}${meta.turn ? ` (turn ${meta.turn})` : ""}`);
+  }
   logDebug(`[Antigravity Debug ${id}] Streaming: ${meta.streaming ? "yes" : "no"}`);
+  if (meta.thinking) {
+    logDebug(`[Antigravity Debug ${id}] Thinking: ${meta.thinking}`);
+  }
+  for (const adjustment of meta.adjustments ?? []) {
+    logDebug(`[Antigravity Debug ${id}] Adjusted: ${adjustment}`);
+  }
   logDebug(`[Antigravity Debug ${id}] Headers: ${JSON.stringify(maskHeaders(meta.headers))}`);
   const bodyPreview = formatBodyPreview(meta.body);
   if (bodyPreview) {
@@ -154,6 +167,16 @@ function truncateForLog(text: string): string {
   return `${text.slice(0, MAX_BODY_PREVIEW_CHARS)}... (truncated ${text.length - MAX_BODY_PREVIEW_CHARS} chars)`;
 }
 
+/**
+ * Logs a message that is not tied to a single request (e.g. model discovery) when debugging is enabled.
+ */
+export function logAntigravityDebugMessage(message: string): void {
+  if (!debugEnabled) {
+    return;
+  }
+  logDebug(`[Antigravity Debug] ${message}`);
+}
+
 /**
  * Writes a single debug line using the configured writer.
  */
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+
+import { constrainGenerationConfig } from "./generation-config";
+
+describe("constrainGenerationConfig", () => {
+  it("caps maxOutputTokens at the model output limit", () => {
+    const config: Record<string, unknown> = { maxOutputTokens: 100000, topK: 40 };
+
+    expect(constrainGenerationConfig(config, "gemini-3-pro-high")).toEqual([
+      "maxOutputTokens 100000 -> 65535 (model output limit)",
+    ]);
+    expect(config).toEqual({ maxOutputTokens: 65535, topK: 40 });
+  });
+
+  it("raises Claude thinking budgets to the minimum", () => {
+    const config: Record<string, unknown> = { maxOutputTokens: 4096, thinkingConfig: { thinkingBudget: 200 } };
+
+    expect(constrainGenerationConfig(config, "claude-sonnet-4-5-thinking")).toEqual([
+      "thinkingBudget 200 -> 1024 (Claude minimum)",
+    ]);
+    expect(config).toEqual({ maxOutputTokens: 4096, thinkingConfig: { thinkingBudget: 1024 } });
+  });
+
+  it("lowers the thinking budget below maxOutputTokens instead of raising the caller's cap", () => {
+    const config: Record<string, unknown> = { maxOutputTokens: 8000, thinkingConfig: { thinkingBudget: 16000 } };
+
+    expect(constrainGenerationConfig(config, "claude-opus-4-5-thinking")).toEqual([
+      "thinkingBudget 16000 -> 7999 (must be below maxOutputTokens 8000)",
+    ]);
+    expect(config).toEqual({ maxOutputTokens: 8000, thinkingConfig: { thinkingBudget: 7999 } });
+  });
+
+  it("disables thinking when maxOutputTokens leaves no room for the minimum budget", () => {
+    const config: Record<string, unknown> = {
+      maxOutputTokens: 1000,
+      temperature: 0.2,
+      thinkingConfig: { thinkingBudget: 16000, includeThoughts: true },
+    };
+
+    expect(constrainGenerationConfig(config, "claude-sonnet-4-5-thinking")).toEqual([
+      "thinking disabled (maxOutputTokens 1000 leaves no room for the 1024-token Claude minimum)",
+    ]);
+    expect(config).toEqual({
+      maxOutputTokens: 1000,
+      temperature: 0.2,
+      thinkingConfig: { thinkingBudget: 0, includeThoughts: false },
+    });
+  });
+
+  it("drops sampling settings Claude thinking does not allow and raises topP", () => {
+    const config: Record<string, unknown> = {
+      thinkingConfig: { thinkingBudget: 4096 },
+      topK: 40,
+      temperature: 0.2,
+      topP: 0.5,
+      presencePenalty: 0.1,
+      frequencyPenalty: 0.1,
+    };
+
+    expect(constrainGenerationConfig(config, "claude-sonnet-4-5-thinking")).toEqual([
+      "topK dropped (not supported with Claude thinking)",
+      "temperature 0.2 dropped (not supported with Claude thinking)",
+      "topP 0.5 -> 0.95 (Claude thinking minimum)",
+      "presencePenalty dropped (not supported by Claude)",
+      "frequencyPenalty dropped (not supported by Claude)",
+    ]);
+    expect(config).toEqual({ thinkingConfig: { thinkingBudget: 4096 }, topP: 0.95 });
+  });
+
+  it("only caps temperature for Claude without thinking", () => {
+    const config: Record<string, unknown> = { temperature: 1.5, topK: 40, topP: 0.5 };
+
+    expect(constrainGenerationConfig(config, "claude-sonnet-4-5")).toEqual(["temperature 1.5 -> 1 (Claude maximum)"]);
+    expect(config).toEqual({ temperature: 1, topK: 40, topP: 0.5 });
+  });
+});
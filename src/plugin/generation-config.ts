@@ -0,0 +1,114 @@
+import { getModelFamily, getModelInfo } from "./models";
+
+/**
+ * Smallest thinking budget Claude accepts.
+ */
+const CLAUDE_MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Lowest `topP` Claude accepts while thinking is enabled.
+ */
+const CLAUDE_THINKING_MIN_TOP_P = 0.95;
+
+/**
+ * Generation fields Claude does not support through Antigravity.
+ */
+const CLAUDE_UNSUPPORTED_FIELDS = [
+  "presencePenalty",
+  "frequencyPenalty",
+  "responseLogprobs",
+  "logprobs",
+] as const;
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Clamps or drops generation settings the target model would reject, mutating
+ * `generationConfig` in place. Returns a human-readable description of every adjustment.
+ *
+ * - `maxOutputTokens` is capped at the model's output limit.
+ * - Claude with thinking: `thinkingBudget` is lowered below `maxOutputTokens` (the caller's cap
+ *   is kept), and thinking is disabled when that would fall under the 1024-token minimum;
+ *   `topK`/`temperature` cannot be customized and `topP` must be at least 0.95.
+ * - Claude: `temperature` is capped at 1 and unsupported penalty/logprob fields are dropped.
+ */
+export function constrainGenerationConfig(generationConfig: Record<string, unknown>, model: string): string[] {
+  const adjustments: string[] = [];
+  const info = getModelInfo(model);
+  const isClaude = getModelFamily(model) === "claude";
+
+  const thinkingConfig = generationConfig.thinkingConfig as Record<string, unknown> | undefined;
+  let thinkingBudget = toNumber(thinkingConfig?.thinkingBudget) ?? 0;
+  let maxOutputTokens = toNumber(generationConfig.maxOutputTokens);
+
+  if (info && maxOutputTokens !== undefined && maxOutputTokens > info.outputLimit) {
+    adjustments.push(`maxOutputTokens ${maxOutputTokens} -> ${info.outputLimit} (model output limit)`);
+    maxOutputTokens = info.outputLimit;
+    generationConfig.maxOutputTokens = maxOutputTokens;
+  }
+
+  if (!isClaude) {
+    return adjustments;
+  }
+
+  if (thinkingConfig && thinkingBudget > 0) {
+    if (maxOutputTokens !== undefined && maxOutputTokens <= CLAUDE_MIN_THINKING_BUDGET) {
+      // The caller's output cap wins; a budget below it would fall under Claude's minimum
+      adjustments.push(
+        `thinking disabled (maxOutputTokens ${maxOutputTokens} leaves no room for the ${CLAUDE_MIN_THINKING_BUDGET}-token Claude minimum)`,
+      );
+      thinkingBudget = 0;
+      thinkingConfig.thinkingBudget = 0;
+      if (thinkingConfig.includeThoughts !== undefined) {
+        thinkingConfig.includeThoughts = false;
+      }
+    } else {
+      if (thinkingBudget < CLAUDE_MIN_THINKING_BUDGET) {
+        adjustments.push(`thinkingBudget ${thinkingBudget} -> ${CLAUDE_MIN_THINKING_BUDGET} (Claude minimum)`);
+        thinkingBudget = CLAUDE_MIN_THINKING_BUDGET;
+        thinkingConfig.thinkingBudget = thinkingBudget;
+      }
+      if (maxOutputTokens !== undefined && maxOutputTokens <= thinkingBudget) {
+        const lowered = maxOutputTokens - 1;
+        adjustments.push(`thinkingBudget ${thinkingBudget} -> ${lowered} (must be below maxOutputTokens ${maxOutputTokens})`);
+        thinkingConfig.thinkingBudget = lowered;
+        thinkingBudget = lowered;
+      }
+    }
+  }
+
+  const thinkingEnabled = thinkingBudget > 0;
+  if (thinkingEnabled) {
+    if (generationConfig.topK !== undefined) {
+      adjustments.push("topK dropped (not supported with Claude thinking)");
+      delete generationConfig.topK;
+    }
+    const temperature = toNumber(generationConfig.temperature);
+    if (temperature !== undefined && temperature !== 1) {
+      adjustments.push(`temperature ${temperature} dropped (not supported with Claude thinking)`);
+      delete generationConfig.temperature;
+    }
+    const topP = toNumber(generationConfig.topP);
+    if (topP !== undefined && topP < CLAUDE_THINKING_MIN_TOP_P) {
+      adjustments.push(`topP ${topP} -> ${CLAUDE_THINKING_MIN_TOP_P} (Claude thinking minimum)`);
+      generationConfig.topP = CLAUDE_THINKING_MIN_TOP_P;
+    }
+  } else {
+    const temperature = toNumber(generationConfig.temperature);
+    if (temperature !== undefined && temperature > 1) {
+      adjustments.push(`temperature ${temperature} -> 1 (Claude maximum)`);
+      generationConfig.temperature = 1;
+    }
+  }
+
+  for (const field of CLAUDE_UNSUPPORTED_FIELDS) {
+    if (generationConfig[field] !== undefined) {
+      adjustments.push(`${field} dropped (not supported by Claude)`);
+      delete generationConfig[field];
+    }
+  }
+
+  return adjustments;
+}
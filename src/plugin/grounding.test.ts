@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  collectGroundingSources,
+  createGroundingState,
+  extractGroundingTools,
+  flushGroundingSources,
+  hasGroundingTools,
+} from "./grounding";
+
+describe("extractGroundingTools", () => {
+  it("pulls grounding tools out of the tool list as a single googleSearch entry", () => {
+    const payload: Record<string, unknown> = {
+      tools: [{ googleSearchRetrieval: { dynamicRetrievalConfig: {} } }, { functionDeclarations: [] }, { google_search: {} }],
+    };
+
+    expect(extractGroundingTools(payload)).toEqual([{ googleSearch: {} }]);
+    expect(payload.tools).toEqual([{ functionDeclarations: [] }]);
+  });
+});
+
+describe("hasGroundingTools", () => {
+  it("detects search and retrieval tools only", () => {
+    expect(hasGroundingTools({ tools: [{ functionDeclarations: [] }, { googleSearch: {} }] })).toBe(true);
+    expect(hasGroundingTools({ tools: [{ retrieval: { vertexAiSearch: {} } }] })).toBe(true);
+    expect(hasGroundingTools({ tools: [{ functionDeclarations: [{ name: "read" }] }] })).toBe(false);
+    expect(hasGroundingTools({})).toBe(false);
+  });
+});
+
+describe("collectGroundingSources", () => {
+  it("renders sources from grounding and citation metadata on the finishing chunk", () => {
+    const state = createGroundingState();
+    const first = {
+      candidates: [
+        {
+          content: { role: "model", parts: [{ text: "Paris is the capital." }] },
+          groundingMetadata: { groundingChunks: [{ web: { uri: "https://a.example", title: "A" } }] },
+        },
+      ],
+    };
+    const last = {
+      candidates: [
+        {
+          content: { role: "model", parts: [{ text: " It is large." }] },
+          citationMetadata: { citations: [{ uri: "https://b.example" }, { uri: "https://a.example" }] },
+          finishReason: "STOP",
+        },
+      ],
+    };
+
+    expect(collectGroundingSources(first, state)).toBe(first);
+    const rendered = collectGroundingSources(last, state) as any;
+
+    expect(rendered.candidates[0].content.parts).toEqual([
+      { text: " It is large." },
+      { text: "\n\nSources:\n[1] [A](https://a.example)\n[2] [https://b.example](https://b.example)" },
+    ]);
+    expect(rendered.candidates[0].citationMetadata).toEqual(last.candidates[0]!.citationMetadata);
+    expect(flushGroundingSources(state)).toBeNull();
+  });
+
+  it("flushes sources that arrived after the finishing chunk", () => {
+    const state = createGroundingState();
+    collectGroundingSources({ candidates: [{ content: { parts: [] }, finishReason: "STOP" }] }, state);
+    collectGroundingSources(
+      { candidates: [{ groundingMetadata: { groundingChunks: [{ web: { uri: "https://c.example", title: "C" } }] } }] },
+      state,
+    );
+
+    expect(flushGroundingSources(state)).toEqual({
+      candidates: [{ index: 0, content: { role: "model", parts: [{ text: "\n\nSources:\n[1] [C](https://c.example)" }] } }],
+    });
+  });
+
+  it("adds no text to responses that call a function", () => {
+    const state = createGroundingState();
+    const response = {
+      candidates: [
+        {
+          content: { role: "model", parts: [{ functionCall: { name: "read", args: {} } }] },
+          groundingMetadata: { groundingChunks: [{ web: { uri: "https://d.example", title: "D" } }] },
+          finishReason: "STOP",
+        },
+      ],
+    };
+
+    expect(collectGroundingSources(response, state)).toBe(response);
+    expect(flushGroundingSources(state)).toBeNull();
+  });
+});
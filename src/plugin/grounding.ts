@@ -0,0 +1,138 @@
+/**
+ * Tool keys that request Google Search grounding, in Gemini camelCase and snake_case.
+ */
+const GROUNDING_TOOL_KEYS = [
+  "googleSearch",
+  "google_search",
+  "googleSearchRetrieval",
+  "google_search_retrieval",
+] as const;
+
+/**
+ * Sources cited by one response, collected across stream chunks until they are rendered.
+ */
+export interface GroundingState {
+  sources: Map<string, string>;
+  emitted: boolean;
+  /** Set when the response calls a function; no text may follow the call, so sources are not rendered. */
+  toolCalls: boolean;
+}
+
+export function createGroundingState(): GroundingState {
+  return { sources: new Map(), emitted: false, toolCalls: false };
+}
+
+function isGroundingTool(tool: unknown): boolean {
+  if (!tool || typeof tool !== "object") {
+    return false;
+  }
+  const record = tool as Record<string, unknown>;
+  return GROUNDING_TOOL_KEYS.some((key) => key in record) || record.type === "google_search";
+}
+
+/**
+ * Whether the request declares a search or retrieval tool, i.e. whether its response may carry
+ * sources worth rendering. Without one, citation metadata (e.g. recitation checks) is left as is.
+ */
+export function hasGroundingTools(requestPayload: Record<string, unknown>): boolean {
+  return Array.isArray(requestPayload.tools) &&
+    requestPayload.tools.some((tool) => isGroundingTool(tool) || (!!tool && typeof tool === "object" && "retrieval" in tool));
+}
+
+/**
+ * Removes Google Search grounding tools from `requestPayload.tools` and returns them as a single
+ * `{ googleSearch: {} }` entry (legacy `googleSearchRetrieval` maps onto it), or an empty list
+ * when the request does not ask for grounding.
+ */
+export function extractGroundingTools(requestPayload: Record<string, unknown>): any[] {
+  if (!Array.isArray(requestPayload.tools)) {
+    return [];
+  }
+  const tools = requestPayload.tools;
+  const grounding = tools.filter(isGroundingTool);
+  if (grounding.length === 0) {
+    return [];
+  }
+  requestPayload.tools = tools.filter((tool) => !isGroundingTool(tool));
+  return [{ googleSearch: {} }];
+}
+
+function addSource(state: GroundingState, uri: unknown, title: unknown): void {
+  if (typeof uri !== "string" || !uri || state.sources.has(uri)) {
+    return;
+  }
+  state.sources.set(uri, typeof title === "string" && title ? title : uri);
+}
+
+/**
+ * Renders collected sources as a numbered markdown list.
+ */
+function formatSources(state: GroundingState): string {
+  const lines = [...state.sources].map(([uri, title], index) => `[${index + 1}] [${title}](${uri})`);
+  return `\n\nSources:\n${lines.join("\n")}`;
+}
+
+/**
+ * Collects sources from `groundingMetadata` and `citationMetadata` of the first candidate and,
+ * once the candidate finishes, appends them as a text part so clients that ignore the metadata
+ * still show them. Responses that call a function get no text part. The metadata itself is
+ * passed through unchanged.
+ */
+export function collectGroundingSources(response: unknown, state: GroundingState): unknown {
+  if (!response || typeof response !== "object") {
+    return response;
+  }
+  const resp = response as Record<string, unknown>;
+  if (!Array.isArray(resp.candidates) || resp.candidates.length === 0) {
+    return response;
+  }
+
+  const [candidate, ...rest] = resp.candidates as any[];
+  const grounding = candidate?.groundingMetadata;
+  if (Array.isArray(grounding?.groundingChunks)) {
+    for (const chunk of grounding.groundingChunks) {
+      const source = chunk?.web ?? chunk?.retrievedContext;
+      addSource(state, source?.uri, source?.title);
+    }
+  }
+  const citations = candidate?.citationMetadata?.citations ?? candidate?.citationMetadata?.citationSources;
+  if (Array.isArray(citations)) {
+    for (const citation of citations) {
+      addSource(state, citation?.uri, citation?.title);
+    }
+  }
+
+  const parts = Array.isArray(candidate?.content?.parts) ? candidate.content.parts : [];
+  if (parts.some((part: any) => part?.functionCall)) {
+    state.toolCalls = true;
+  }
+
+  if (!candidate?.finishReason || state.emitted || state.toolCalls || state.sources.size === 0) {
+    return response;
+  }
+  state.emitted = true;
+  return {
+    ...resp,
+    candidates: [
+      {
+        ...candidate,
+        content: { role: "model", ...candidate.content, parts: [...parts, { text: formatSources(state) }] },
+      },
+      ...rest,
+    ],
+  };
+}
+
+/**
+ * Builds a trailing response carrying sources that were never rendered (e.g. grounding metadata
+ * that arrived after the finishing stream chunk), or null when there is nothing left to render.
+ */
+export function flushGroundingSources(state: GroundingState): Record<string, unknown> | null {
+  if (state.emitted || state.toolCalls || state.sources.size === 0) {
+    return null;
+  }
+  state.emitted = true;
+  return {
+    candidates: [{ index: 0, content: { role: "model", parts: [{ text: formatSources(state) }] } }],
+  };
+}
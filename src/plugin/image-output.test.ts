@@ -0,0 +1,87 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { processImageOutput } from "./image-output";
+
+const IMAGE_DATA = Buffer.from("fake png bytes").toString("base64");
+
+function imageResponse(part: Record<string, unknown>) {
+  return {
+    candidates: [{ content: { role: "model", parts: [{ text: "Here it is." }, part] }, finishReason: "STOP" }],
+  };
+}
+
+describe("processImageOutput", () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps inline images and describes them when no output directory is set", () => {
+    const part = { inlineData: { mimeType: "image/png", data: IMAGE_DATA } };
+    const result = processImageOutput(imageResponse(part), undefined) as any;
+
+    expect(result.candidates[0].content.parts).toEqual([
+      { text: "Here it is." },
+      part,
+      { text: "\n[Generated image: image/png, 1 KB]\n" },
+    ]);
+  });
+
+  it("writes images to the output directory and references the file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "antigravity-images-"));
+    dirs.push(dir);
+    const part = { inlineData: { mimeType: "image/png", data: IMAGE_DATA }, thoughtSignature: "sig" };
+
+    const result = processImageOutput(imageResponse(part), dir) as any;
+    const [, reference, note] = result.candidates[0].content.parts;
+
+    expect(reference.inlineData).toBeUndefined();
+    expect(reference.thoughtSignature).toBe("sig");
+    expect(reference.fileData.mimeType).toBe("image/png");
+    const path = fileURLToPath(reference.fileData.fileUri);
+    expect(path.startsWith(dir)).toBe(true);
+    expect(path.endsWith(".png")).toBe(true);
+    expect(readFileSync(path).toString()).toBe("fake png bytes");
+    expect(note.text).toContain(path);
+  });
+
+  it("keeps the image inline when it cannot be written", () => {
+    const dir = mkdtempSync(join(tmpdir(), "antigravity-images-"));
+    dirs.push(dir);
+    // A file where the output directory should be makes every write fail
+    const blocked = join(dir, "not-a-directory");
+    writeFileSync(blocked, "");
+    const part = { inlineData: { mimeType: "image/png", data: IMAGE_DATA } };
+
+    const result = processImageOutput(imageResponse(part), blocked) as any;
+    const [, image, note] = result.candidates[0].content.parts;
+
+    expect(image).toEqual(part);
+    expect(note.text).toMatch(/^\n\[Generated image: image\/png, 1 KB; could not save to .*not-a-directory: /);
+  });
+
+  it("leaves thought images and non-image data untouched", () => {
+    const response = {
+      candidates: [
+        {
+          content: {
+            role: "model",
+            parts: [
+              { thought: true, inlineData: { mimeType: "image/png", data: IMAGE_DATA } },
+              { inlineData: { mimeType: "application/pdf", data: IMAGE_DATA } },
+            ],
+          },
+        },
+      ],
+    };
+
+    expect(processImageOutput(response, undefined)).toBe(response);
+  });
+});
@@ -0,0 +1,102 @@
+import crypto from "node:crypto";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { env } from "node:process";
+import { pathToFileURL } from "node:url";
+
+import { logAntigravityDebugMessage } from "./debug";
+
+const IMAGE_EXTENSIONS: Readonly<Record<string, string>> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+/**
+ * Directory generated images are written to, from `OPENCODE_ANTIGRAVITY_IMAGE_DIR`; unset keeps
+ * images inline.
+ */
+export function resolveImageOutputDir(): string | undefined {
+  const dir = env.OPENCODE_ANTIGRAVITY_IMAGE_DIR?.trim();
+  return dir ? resolve(dir) : undefined;
+}
+
+function describeSize(base64: string): string {
+  const bytes = Math.floor((base64.length * 3) / 4);
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Writes one image to `outputDir` and returns its path.
+ */
+function saveImage(data: string, mimeType: string, outputDir: string): string {
+  mkdirSync(outputDir, { recursive: true });
+  const extension = IMAGE_EXTENSIONS[mimeType] ?? "bin";
+  const name = `antigravity-${Date.now()}-${crypto.randomUUID().slice(0, 8)}.${extension}`;
+  const path = join(outputDir, name);
+  writeFileSync(path, Buffer.from(data, "base64"));
+  return path;
+}
+
+function isGeneratedImage(part: any): boolean {
+  return !!part && part.thought !== true && typeof part.inlineData?.data === "string" &&
+    typeof part.inlineData.mimeType === "string" && part.inlineData.mimeType.startsWith("image/");
+}
+
+/**
+ * Handles images generated by the model. With an output directory, each image is written to
+ * disk and its part replaced by a `fileData` reference to the file; otherwise the inline data
+ * is kept, as it is when the file cannot be written (the describing text then says why). Either
+ * way a text part describing the image follows it. Thought (draft) images are left untouched.
+ */
+export function processImageOutput(response: unknown, outputDir: string | undefined): unknown {
+  if (!response || typeof response !== "object") {
+    return response;
+  }
+  const resp = response as Record<string, unknown>;
+  if (!Array.isArray(resp.candidates)) {
+    return response;
+  }
+
+  let changed = false;
+  const candidates = resp.candidates.map((candidate: any) => {
+    const parts = candidate?.content?.parts;
+    if (!Array.isArray(parts) || !parts.some(isGeneratedImage)) {
+      return candidate;
+    }
+    changed = true;
+    return {
+      ...candidate,
+      content: {
+        ...candidate.content,
+        parts: parts.flatMap((part: any) => {
+          if (!isGeneratedImage(part)) {
+            return [part];
+          }
+          const { mimeType, data } = part.inlineData;
+          const size = describeSize(data);
+          if (!outputDir) {
+            return [part, { text: `\n[Generated image: ${mimeType}, ${size}]\n` }];
+          }
+          let path: string;
+          try {
+            path = saveImage(data, mimeType, outputDir);
+          } catch (error) {
+            // An unwritable directory or a full disk must not lose the image or the response
+            const reason = error instanceof Error ? error.message : String(error);
+            logAntigravityDebugMessage(`Could not save generated image to ${outputDir}: ${reason}`);
+            return [part, { text: `\n[Generated image: ${mimeType}, ${size}; could not save to ${outputDir}: ${reason}]\n` }];
+          }
+          const { inlineData: _inlineData, ...rest } = part;
+          return [
+            { ...rest, fileData: { mimeType, fileUri: pathToFileURL(path).href } },
+            { text: `\n[Generated image saved to ${path} (${mimeType}, ${size})]\n` },
+          ];
+        }),
+      },
+    };
+  });
+
+  return changed ? { ...resp, candidates } : response;
+}
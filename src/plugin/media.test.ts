@@ -0,0 +1,91 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { MediaInputError, normalizeMediaInput } from "./media";
+
+/**
+ * Minimal PNG header (signature + IHDR) for the given dimensions.
+ */
+function pngHeader(width: number, height: number): Buffer {
+  const bytes = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(bytes, 0);
+  bytes.writeUInt32BE(13, 8);
+  bytes.write("IHDR", 12, "latin1");
+  bytes.writeUInt32BE(width, 16);
+  bytes.writeUInt32BE(height, 20);
+  return bytes;
+}
+
+describe("normalizeMediaInput", () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("inlines file:// references with a detected MIME type", () => {
+    const dir = mkdtempSync(join(tmpdir(), "antigravity-media-"));
+    dirs.push(dir);
+    const path = join(dir, "screenshot");
+    writeFileSync(path, pngHeader(10, 10));
+
+    const result = normalizeMediaInput(
+      [{ role: "user", parts: [{ text: "look" }, { fileData: { fileUri: pathToFileURL(path).href } }] }],
+      "claude",
+    );
+
+    expect(result.contents[0].parts[1]).toEqual({
+      inlineData: { mimeType: "image/png", data: pngHeader(10, 10).toString("base64") },
+    });
+    expect(result.adjustments).toEqual(["inlined screenshot (image/png)"]);
+  });
+
+  it("reports only the file name of inlined files", () => {
+    const dir = mkdtempSync(join(tmpdir(), "antigravity-media-"));
+    dirs.push(dir);
+    const path = join(dir, "报告.png");
+    writeFileSync(path, pngHeader(10, 10));
+
+    const result = normalizeMediaInput([{ role: "user", parts: [{ fileData: { fileUri: pathToFileURL(path).href } }] }], "gemini");
+
+    expect(result.adjustments).toEqual(["inlined 报告.png (image/png)"]);
+  });
+
+  it("inlines PDFs for families that read them and rejects them for gpt-oss", () => {
+    const data = Buffer.from("%PDF-1.7\n%%EOF\n").toString("base64");
+    const contents = [{ role: "user", parts: [{ type: "document", source: { type: "base64", media_type: "application/pdf", data } }] }];
+
+    for (const family of ["gemini", "claude"] as const) {
+      expect(normalizeMediaInput(contents, family).contents[0].parts[0]).toEqual({
+        inlineData: { mimeType: "application/pdf", data },
+      });
+    }
+    expect(() => normalizeMediaInput(contents, "gpt-oss")).toThrow(/gpt-oss models do not accept PDF input/);
+  });
+
+  it("converts Anthropic base64 image blocks to inline data", () => {
+    const data = pngHeader(4, 4).toString("base64");
+    const result = normalizeMediaInput(
+      [{ role: "user", parts: [{ type: "image", source: { type: "base64", media_type: "image/png", data } }] }],
+      "gemini",
+    );
+
+    expect(result.contents[0].parts[0]).toEqual({ inlineData: { mimeType: "image/png", data } });
+  });
+
+  it("rejects images over the family dimension limit and unsupported media", () => {
+    const oversized = [{ role: "user", parts: [{ inlineData: { mimeType: "image/png", data: pngHeader(9000, 100).toString("base64") } }] }];
+
+    expect(() => normalizeMediaInput(oversized, "claude")).toThrow(/9000x100 pixels, above the 8000px limit/);
+    expect(() => normalizeMediaInput(oversized, "gemini")).not.toThrow();
+    expect(() => normalizeMediaInput(oversized, "gpt-oss")).toThrow(MediaInputError);
+    expect(() =>
+      normalizeMediaInput([{ role: "user", parts: [{ fileData: { fileUri: "https://example.com/a.pdf" } }] }], "claude"),
+    ).toThrow(/cannot be fetched for claude models/);
+  });
+});
@@ -0,0 +1,300 @@
+import { readFileSync, statSync } from "node:fs";
+import { basename, extname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import type { ModelFamily } from "./models";
+
+/**
+ * What a model family accepts as media input through Antigravity.
+ */
+interface MediaLimits {
+  images: boolean;
+  pdf: boolean;
+  /** Maximum decoded size of one image. */
+  maxImageBytes: number;
+  /** Maximum decoded size of one PDF. */
+  maxPdfBytes: number;
+  /** Maximum width or height of an image, when the upstream enforces one. */
+  maxImageDimension?: number;
+  /** Whether remote `fileData` URIs (http(s), gs://) are fetched upstream. */
+  remoteFiles: boolean;
+}
+
+const MB = 1024 * 1024;
+
+const MEDIA_LIMITS: Readonly<Record<ModelFamily, MediaLimits>> = {
+  gemini: { images: true, pdf: true, maxImageBytes: 20 * MB, maxPdfBytes: 20 * MB, remoteFiles: true },
+  claude: {
+    images: true,
+    pdf: true,
+    maxImageBytes: 5 * MB,
+    maxPdfBytes: 32 * MB,
+    maxImageDimension: 8000,
+    remoteFiles: false,
+  },
+  "gpt-oss": { images: false, pdf: false, maxImageBytes: 0, maxPdfBytes: 0, remoteFiles: false },
+};
+
+const EXTENSION_MIME_TYPES: Readonly<Record<string, string>> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".heif": "image/heif",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".json": "application/json",
+};
+
+/**
+ * Error raised for media the target model cannot accept; reported to the caller as a local
+ * INVALID_ARGUMENT error.
+ */
+export class MediaInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MediaInputError";
+  }
+}
+
+/**
+ * Detects a MIME type from leading file bytes.
+ */
+function sniffMimeType(bytes: Buffer): string | undefined {
+  if (bytes.length >= 8 && bytes.readUInt32BE(0) === 0x89504e47) return "image/png";
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes.subarray(0, 4).toString("latin1") === "GIF8") return "image/gif";
+  if (bytes.subarray(0, 4).toString("latin1") === "RIFF" && bytes.subarray(8, 12).toString("latin1") === "WEBP") {
+    return "image/webp";
+  }
+  if (bytes.subarray(0, 5).toString("latin1") === "%PDF-") return "application/pdf";
+  return undefined;
+}
+
+/**
+ * Reads image width and height from PNG, GIF or JPEG headers.
+ */
+function readImageDimensions(bytes: Buffer, mimeType: string): { width: number; height: number } | undefined {
+  if (mimeType === "image/png" && bytes.length >= 24) {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+  if (mimeType === "image/gif" && bytes.length >= 10) {
+    return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+  }
+  if (mimeType === "image/jpeg") {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) {
+        return undefined;
+      }
+      const marker = bytes[offset + 1] ?? 0;
+      // SOF0-SOF15 markers carry the frame size (excluding DHT, JPG and DAC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { height: bytes.readUInt16BE(offset + 5), width: bytes.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + bytes.readUInt16BE(offset + 2);
+    }
+  }
+  return undefined;
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / MB).toFixed(1)} MB`;
+}
+
+/**
+ * Validates one decoded attachment against the family limits.
+ */
+function checkMedia(bytes: Buffer, mimeType: string, family: ModelFamily, label: string): void {
+  const limits = MEDIA_LIMITS[family];
+  if (mimeType === "application/pdf") {
+    if (!limits.pdf) {
+      throw new MediaInputError(`${label}: ${family} models do not accept PDF input; send the extracted text instead.`);
+    }
+    if (bytes.length > limits.maxPdfBytes) {
+      throw new MediaInputError(
+        `${label}: PDF is ${formatBytes(bytes.length)}, above the ${formatBytes(limits.maxPdfBytes)} limit for ${family} models.`,
+      );
+    }
+    return;
+  }
+  if (!mimeType.startsWith("image/")) {
+    return;
+  }
+  if (!limits.images) {
+    throw new MediaInputError(`${label}: ${family} models do not accept image input.`);
+  }
+  if (bytes.length > limits.maxImageBytes) {
+    throw new MediaInputError(
+      `${label}: image is ${formatBytes(bytes.length)}, above the ${formatBytes(limits.maxImageBytes)} limit for ${family} models. Downscale or compress it before sending.`,
+    );
+  }
+  const dimensions = limits.maxImageDimension ? readImageDimensions(bytes, mimeType) : undefined;
+  if (dimensions && limits.maxImageDimension &&
+    (dimensions.width > limits.maxImageDimension || dimensions.height > limits.maxImageDimension)) {
+    throw new MediaInputError(
+      `${label}: image is ${dimensions.width}x${dimensions.height} pixels, above the ${limits.maxImageDimension}px limit for ${family} models. Downscale it before sending.`,
+    );
+  }
+}
+
+/**
+ * Validates base64 inline media against the family limits, throwing `MediaInputError` when the
+ * family cannot accept it.
+ */
+export function checkInlineMedia(data: string, mimeType: string, family: ModelFamily, label: string): void {
+  checkMedia(Buffer.from(data, "base64"), mimeType, family, label);
+}
+
+/**
+ * Reads a local `file://` reference into inline data, checking its size before reading it.
+ */
+function readLocalFile(
+  uri: string,
+  declaredMimeType: string | undefined,
+  family: ModelFamily,
+): { path: string; mimeType: string; data: string } {
+  let path: string;
+  try {
+    path = fileURLToPath(uri);
+  } catch {
+    throw new MediaInputError(`Invalid file reference ${uri}.`);
+  }
+
+  let size: number;
+  try {
+    size = statSync(path).size;
+  } catch {
+    throw new MediaInputError(`Cannot read ${path}: file not found or not accessible.`);
+  }
+  const limits = MEDIA_LIMITS[family];
+  const maxBytes = Math.max(limits.maxImageBytes, limits.maxPdfBytes, 20 * MB);
+  if (size > maxBytes) {
+    throw new MediaInputError(`${path}: file is ${formatBytes(size)}, above the ${formatBytes(maxBytes)} inline limit.`);
+  }
+
+  const bytes = readFileSync(path);
+  const mimeType = sniffMimeType(bytes)
+    ?? (declaredMimeType && declaredMimeType !== "application/octet-stream" ? declaredMimeType : undefined)
+    ?? EXTENSION_MIME_TYPES[extname(path).toLowerCase()]
+    ?? "application/octet-stream";
+  checkMedia(bytes, mimeType, family, path);
+  return { path, mimeType, data: bytes.toString("base64") };
+}
+
+/**
+ * Parses a `data:` URI into inline data.
+ */
+export function parseDataUri(uri: string): { mimeType: string; data: string } | undefined {
+  const match = uri.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s);
+  if (!match) {
+    return undefined;
+  }
+  return { mimeType: match[1] ?? "application/octet-stream", data: match[2] ?? "" };
+}
+
+/**
+ * Converts Anthropic (`{ type: "image" | "document", source }`) and OpenAI
+ * (`{ type: "image_url", image_url }`) media parts into Gemini parts.
+ */
+function toGeminiMediaPart(part: any): any {
+  if ((part.type === "image" || part.type === "document") && part.source && typeof part.source === "object") {
+    const source = part.source;
+    if (source.type === "base64" && typeof source.data === "string") {
+      return { inlineData: { mimeType: source.media_type ?? source.mediaType, data: source.data } };
+    }
+    if (source.type === "url" && typeof source.url === "string") {
+      return { fileData: { fileUri: source.url, mimeType: source.media_type ?? source.mediaType } };
+    }
+  }
+  if (part.type === "image_url" && part.image_url) {
+    const url = typeof part.image_url === "string" ? part.image_url : part.image_url.url;
+    if (typeof url === "string") {
+      return { fileData: { fileUri: url } };
+    }
+  }
+  return part;
+}
+
+/**
+ * Normalizes one media part: resolves local and `data:` references into inline data, fills in
+ * missing MIME types and enforces the family limits.
+ */
+function normalizeMediaPart(part: any, family: ModelFamily, adjustments: string[]): any {
+  const converted = toGeminiMediaPart(part);
+
+  if (converted.fileData && typeof converted.fileData.fileUri === "string") {
+    const { fileUri, mimeType } = converted.fileData;
+    if (fileUri.startsWith("file://")) {
+      const { path, ...inlineData } = readLocalFile(fileUri, mimeType, family);
+      // Only the file name is reported; adjustments end up in response headers and logs.
+      adjustments.push(`inlined ${basename(path)} (${inlineData.mimeType})`);
+      return normalizeInlinePart({ ...converted, fileData: undefined, inlineData }, family);
+    }
+    if (fileUri.startsWith("data:")) {
+      const inlineData = parseDataUri(fileUri);
+      if (!inlineData) {
+        throw new MediaInputError("Malformed data: URI in a media part; only base64 data URIs are supported.");
+      }
+      return normalizeInlinePart({ ...converted, fileData: undefined, inlineData }, family);
+    }
+    if (!MEDIA_LIMITS[family].remoteFiles) {
+      throw new MediaInputError(
+        `Remote file ${fileUri} cannot be fetched for ${family} models; send it as inline data or a file:// reference.`,
+      );
+    }
+    return converted;
+  }
+
+  if (converted.inlineData) {
+    return normalizeInlinePart(converted, family);
+  }
+  return converted;
+}
+
+function normalizeInlinePart(part: any, family: ModelFamily): any {
+  const { fileData: _fileData, ...rest } = part;
+  const inlineData = rest.inlineData;
+  if (typeof inlineData.data !== "string") {
+    throw new MediaInputError("Inline data part is missing its base64 data.");
+  }
+  const bytes = Buffer.from(inlineData.data, "base64");
+  const declared = typeof inlineData.mimeType === "string" ? inlineData.mimeType : undefined;
+  const mimeType = declared && declared !== "application/octet-stream"
+    ? declared
+    : sniffMimeType(bytes) ?? "application/octet-stream";
+  checkMedia(bytes, mimeType, family, `Inline ${mimeType} attachment`);
+  return { ...rest, inlineData: { ...inlineData, mimeType } };
+}
+
+function isMediaPart(part: any): boolean {
+  return Boolean(
+    part && typeof part === "object" &&
+    (part.inlineData || part.fileData || part.type === "image" || part.type === "document" || part.type === "image_url"),
+  );
+}
+
+/**
+ * Normalizes media parts in contents for the target model family: Anthropic/OpenAI media
+ * parts become Gemini parts, `file://` and `data:` references become base64 `inlineData`,
+ * missing MIME types are detected, and images or PDFs the family cannot accept (type, size,
+ * dimensions, remote URIs) raise `MediaInputError`. Returns the new contents and a
+ * description of every file inlined.
+ */
+export function normalizeMediaInput(contents: any[], family: ModelFamily): { contents: any[]; adjustments: string[] } {
+  const adjustments: string[] = [];
+  const normalized = contents.map((content: any) => {
+    if (!content || !Array.isArray(content.parts) || !content.parts.some(isMediaPart)) {
+      return content;
+    }
+    return {
+      ...content,
+      parts: content.parts.map((part: any) => (isMediaPart(part) ? normalizeMediaPart(part, family, adjustments) : part)),
+    };
+  });
+  return { contents: normalized, adjustments };
+}
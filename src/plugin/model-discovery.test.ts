@@ -0,0 +1,140 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  discoverAntigravityModels,
+  invalidateModelDiscoveryCache,
+  mergeDiscoveredModels,
+} from "./model-discovery";
+import { applyModelCatalog } from "./models";
+import type { Provider } from "./types";
+
+interface StubRequest {
+  url?: string;
+  authorization?: string;
+  body: string;
+}
+
+function startStubServer(status: number, payload: unknown): Promise<{ server: Server; endpoint: string; requests: StubRequest[] }> {
+  const requests: StubRequest[] = [];
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => {
+      body += chunk;
+    });
+    request.on("end", () => {
+      requests.push({ url: request.url, authorization: request.headers.authorization, body });
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(payload));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, endpoint: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+describe("discoverAntigravityModels", () => {
+  const servers: Server[] = [];
+
+  beforeEach(() => {
+    invalidateModelDiscoveryCache();
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+  });
+
+  it("falls back to the next endpoint and parses the model listing", async () => {
+    const failing = await startStubServer(503, { error: { message: "unavailable" } });
+    const working = await startStubServer(200, {
+      models: {
+        "gemini-3-pro-high": { displayName: "Gemini 3 Pro High", maxTokens: 1048576, maxOutputTokens: 65535 },
+        "gemini-3-flash": { displayName: "Gemini 3 Flash", maxTokens: 1048576, maxOutputTokens: 65536 },
+      },
+    });
+    servers.push(failing.server, working.server);
+
+    const result = await discoverAntigravityModels("access-token", "project-1", [failing.endpoint, working.endpoint]);
+
+    expect(failing.requests).toHaveLength(1);
+    expect(working.requests[0]).toMatchObject({
+      url: "/v1internal:fetchAvailableModels",
+      authorization: "Bearer access-token",
+      body: JSON.stringify({ project: "project-1" }),
+    });
+    expect(result?.models).toEqual([
+      { id: "gemini-3-pro-high", name: "Gemini 3 Pro High", contextLimit: 1048576, outputLimit: 65535 },
+      { id: "gemini-3-flash", name: "Gemini 3 Flash", contextLimit: 1048576, outputLimit: 65536 },
+    ]);
+  });
+
+  it("caches results per project", async () => {
+    const stub = await startStubServer(200, { models: [{ id: "claude-sonnet-4-5" }] });
+    servers.push(stub.server);
+
+    await discoverAntigravityModels("access-token", "project-2", [stub.endpoint]);
+    await discoverAntigravityModels("access-token", "project-2", [stub.endpoint]);
+
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it("returns null when no endpoint answers", async () => {
+    const stub = await startStubServer(403, { error: { message: "forbidden" } });
+    servers.push(stub.server);
+
+    await expect(discoverAntigravityModels("access-token", "project-3", [stub.endpoint])).resolves.toBeNull();
+  });
+});
+
+describe("mergeDiscoveredModels", () => {
+  it("adds new models and drops inaccessible catalog models the user did not declare", () => {
+    const provider: Provider = {
+      models: { "claude-opus-4-5-thinking": { name: "My Opus" } },
+    };
+    const declared = new Set(Object.keys(provider.models!));
+    applyModelCatalog(provider);
+
+    const unavailable = mergeDiscoveredModels(
+      provider,
+      {
+        fetchedAt: Date.now(),
+        models: [
+          { id: "gemini-3-pro-high" },
+          { id: "gemini-3-flash", name: "Gemini 3 Flash", contextLimit: 1048576, outputLimit: 65536 },
+        ],
+      },
+      declared,
+    );
+
+    expect(unavailable).toContain("claude-sonnet-4-5");
+    expect(provider.models?.["claude-sonnet-4-5"]).toBeUndefined();
+    expect(provider.models?.["claude-opus-4-5-thinking"]?.name).toBe("My Opus");
+    expect(provider.models?.["gemini-3-flash"]).toEqual({
+      id: "gemini-3-flash",
+      name: "Gemini 3 Flash (Antigravity)",
+      limit: { context: 1048576, output: 65536 },
+    });
+  });
+
+  it("only adds models of supported families", () => {
+    const provider: Provider = { models: {} };
+
+    mergeDiscoveredModels(provider, {
+      fetchedAt: Date.now(),
+      models: [
+        { id: "gemini-3-flash" },
+        { id: "claude-haiku-4-5" },
+        { id: "chat_20706" },
+        { id: "tab_flash_lite_preview" },
+        { id: "gemini-embedding-001" },
+      ],
+    });
+
+    expect(Object.keys(provider.models!)).toEqual(["gemini-3-flash", "claude-haiku-4-5"]);
+  });
+});
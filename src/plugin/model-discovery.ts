@@ -0,0 +1,207 @@
+import { ANTIGRAVITY_ENDPOINT_FALLBACKS, ANTIGRAVITY_HEADERS } from "../constants";
+import { ANTIGRAVITY_MODELS } from "./models";
+import type { Provider } from "./types";
+
+const DISCOVERY_CACHE_TTL_MS = 10 * 60 * 1000;
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+/**
+ * ID prefixes of the model families requests can be shaped for. The listing also reports
+ * internal models (autocomplete, embeddings, ...) that cannot serve chat requests.
+ */
+const SUPPORTED_MODEL_PREFIXES = ["gemini-", "claude-", "gpt-oss-"] as const;
+const UNSUPPORTED_MODEL_PATTERN = /embedding|tts/;
+
+/**
+ * A model reported by the backend's model-listing endpoint.
+ */
+export interface DiscoveredModel {
+  id: string;
+  name?: string;
+  contextLimit?: number;
+  outputLimit?: number;
+}
+
+export interface ModelDiscoveryResult {
+  models: DiscoveredModel[];
+  fetchedAt: number;
+}
+
+interface AvailableModelsPayload {
+  models?: Record<string, Record<string, unknown>> | Array<Record<string, unknown>>;
+}
+
+const discoveryResultCache = new Map<string, ModelDiscoveryResult>();
+const discoveryPendingCache = new Map<string, Promise<ModelDiscoveryResult | null>>();
+
+function toPositiveNumber(value: unknown): number | undefined {
+  const numeric = typeof value === "string" ? Number(value) : value;
+  return typeof numeric === "number" && Number.isFinite(numeric) && numeric > 0 ? numeric : undefined;
+}
+
+/**
+ * Normalizes the listing payload, which is either a map keyed by model ID or an array of entries.
+ */
+function parseAvailableModels(payload: AvailableModelsPayload): DiscoveredModel[] {
+  const entries: Array<[string | undefined, Record<string, unknown>]> = Array.isArray(payload.models)
+    ? payload.models.map((entry) => [undefined, entry])
+    : Object.entries(payload.models ?? {});
+
+  const models: DiscoveredModel[] = [];
+  for (const [key, entry] of entries) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+    const rawId = key ?? entry.id ?? entry.name ?? entry.model;
+    if (typeof rawId !== "string" || !rawId) {
+      continue;
+    }
+    models.push({
+      id: rawId.replace(/^models\//, ""),
+      name: typeof entry.displayName === "string" ? entry.displayName : undefined,
+      contextLimit: toPositiveNumber(entry.maxTokens ?? entry.inputTokenLimit),
+      outputLimit: toPositiveNumber(entry.maxOutputTokens ?? entry.outputTokenLimit),
+    });
+  }
+  return models;
+}
+
+/**
+ * Fetches the models available to the account from the first endpoint that answers.
+ */
+async function fetchAvailableModels(
+  accessToken: string,
+  projectId: string,
+  endpoints: readonly string[],
+): Promise<ModelDiscoveryResult | null> {
+  for (const baseEndpoint of endpoints) {
+    try {
+      const response = await fetch(`${baseEndpoint}/v1internal:fetchAvailableModels`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+          ...ANTIGRAVITY_HEADERS,
+        },
+        body: JSON.stringify(projectId ? { project: projectId } : {}),
+        signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        continue;
+      }
+
+      const payload = (await response.json()) as AvailableModelsPayload;
+      return { models: parseAvailableModels(payload ?? {}), fetchedAt: Date.now() };
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a discovered model belongs to a family this plugin can send chat requests to.
+ */
+function isSupportedDiscoveredModel(id: string): boolean {
+  const lowered = id.toLowerCase();
+  return SUPPORTED_MODEL_PREFIXES.some((prefix) => lowered.startsWith(prefix)) && !UNSUPPORTED_MODEL_PATTERN.test(lowered);
+}
+
+/**
+ * Clears cached discovery results, globally or for a single project.
+ */
+export function invalidateModelDiscoveryCache(projectId?: string): void {
+  if (projectId === undefined) {
+    discoveryResultCache.clear();
+    discoveryPendingCache.clear();
+    return;
+  }
+  discoveryResultCache.delete(projectId);
+  discoveryPendingCache.delete(projectId);
+}
+
+/**
+ * Discovers the models available to the account, caching results per project. Returns null when
+ * no endpoint could be reached, in which case callers should keep the static catalog.
+ */
+export async function discoverAntigravityModels(
+  accessToken: string,
+  projectId: string,
+  endpoints: readonly string[] = ANTIGRAVITY_ENDPOINT_FALLBACKS,
+): Promise<ModelDiscoveryResult | null> {
+  const cached = discoveryResultCache.get(projectId);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL_MS) {
+    return cached;
+  }
+  const pending = discoveryPendingCache.get(projectId);
+  if (pending) {
+    return pending;
+  }
+
+  const promise = fetchAvailableModels(accessToken, projectId, endpoints)
+    .then((result) => {
+      discoveryPendingCache.delete(projectId);
+      if (result) {
+        discoveryResultCache.set(projectId, result);
+      }
+      return result;
+    })
+    .catch(() => {
+      discoveryPendingCache.delete(projectId);
+      return null;
+    });
+
+  discoveryPendingCache.set(projectId, promise);
+  return promise;
+}
+
+/**
+ * Merges discovered models into the provider config. New models of supported families are added
+ * with their reported limits; catalog models the account cannot access (absent from the listing) are removed unless
+ * the user declared them explicitly. Returns the IDs flagged as unavailable.
+ */
+export function mergeDiscoveredModels(
+  provider: Provider,
+  result: ModelDiscoveryResult,
+  userDeclaredModelIds: ReadonlySet<string> = new Set(),
+): string[] {
+  const models = provider.models ?? (provider.models = {});
+  const available = new Set(result.models.map((model) => model.id));
+
+  for (const discovered of result.models) {
+    if (!isSupportedDiscoveredModel(discovered.id)) {
+      continue;
+    }
+    const existing = models[discovered.id];
+    const limit = discovered.contextLimit && discovered.outputLimit
+      ? { context: discovered.contextLimit, output: discovered.outputLimit }
+      : undefined;
+
+    if (!existing) {
+      models[discovered.id] = {
+        id: discovered.id,
+        name: discovered.name ? `${discovered.name} (Antigravity)` : discovered.id,
+        ...(limit ? { limit } : {}),
+      };
+    } else if (!existing.limit && limit) {
+      existing.limit = limit;
+    }
+  }
+
+  const unavailable: string[] = [];
+  if (available.size === 0) {
+    return unavailable;
+  }
+  for (const id of Object.keys(ANTIGRAVITY_MODELS)) {
+    if (available.has(id)) {
+      continue;
+    }
+    unavailable.push(id);
+    if (!userDeclaredModelIds.has(id)) {
+      delete models[id];
+    }
+  }
+  return unavailable;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import { ANTIGRAVITY_MODELS, applyModelCatalog, isAntigravityModel } from "./models";
+import { rewriteAntigravityPreviewAccessError } from "./request-helpers";
+import type { Provider } from "./types";
+
+describe("isAntigravityModel", () => {
+  it("matches preview-gated models and antigravity mentions only", () => {
+    expect(isAntigravityModel("claude-sonnet-4-5")).toBe(true);
+    expect(isAntigravityModel("google/claude-opus-4-5-thinking")).toBe(true);
+    expect(isAntigravityModel("Requested entity antigravity-model was not found.")).toBe(true);
+
+    expect(isAntigravityModel("gemini-3-pro-high")).toBe(false);
+    expect(isAntigravityModel("gemini-2.5-flash")).toBe(false);
+    expect(isAntigravityModel(undefined)).toBe(false);
+  });
+});
+
+describe("rewriteAntigravityPreviewAccessError", () => {
+  const notFound = { error: { code: 404, message: "Requested entity was not found." } };
+
+  it("rewrites 404s for preview-gated models", () => {
+    const rewritten = rewriteAntigravityPreviewAccessError(notFound, 404, "claude-sonnet-4-5");
+
+    expect(rewritten?.error?.message).toMatch(/^Requested entity was not found\. Request preview access at /);
+    expect(rewriteAntigravityPreviewAccessError(
+      { error: { message: "Antigravity preview is not enabled." } },
+      404,
+      "gemini-3-pro-high",
+    )).not.toBeNull();
+  });
+
+  it("leaves ordinary 404s and other statuses alone", () => {
+    expect(rewriteAntigravityPreviewAccessError(notFound, 404, "gemini-3-pro-high")).toBeNull();
+    expect(rewriteAntigravityPreviewAccessError(notFound, 403, "claude-sonnet-4-5")).toBeNull();
+  });
+});
+
+describe("applyModelCatalog", () => {
+  it("adds missing catalog models with their limits", () => {
+    const provider: Provider = {};
+    applyModelCatalog(provider);
+
+    expect(Object.keys(provider.models!)).toEqual(Object.keys(ANTIGRAVITY_MODELS));
+    expect(provider.models!["claude-sonnet-4-5"]).toEqual({
+      id: "claude-sonnet-4-5",
+      name: "Claude Sonnet 4.5 (Antigravity)",
+      limit: { context: 200000, output: 64000 },
+    });
+  });
+
+  it("fills gaps in user entries without overriding them", () => {
+    const provider: Provider = {
+      models: {
+        "gemini-3-pro-high": { name: "My Gemini" },
+        "claude-sonnet-4-5": { limit: { context: 100000, output: 8000 } },
+        "custom-model": { name: "Custom" },
+      },
+    };
+    applyModelCatalog(provider);
+
+    expect(provider.models!["gemini-3-pro-high"]).toEqual({
+      name: "My Gemini",
+      limit: { context: 1048576, output: 65535 },
+    });
+    expect(provider.models!["claude-sonnet-4-5"]).toEqual({
+      name: "Claude Sonnet 4.5 (Antigravity)",
+      limit: { context: 100000, output: 8000 },
+    });
+    expect(provider.models!["custom-model"]).toEqual({ name: "Custom" });
+  });
+});
@@ -0,0 +1,197 @@
+import type { Provider } from "./types";
+
+/**
+ * Upstream model families served through Antigravity. Request shaping differs per family.
+ */
+export type ModelFamily = "gemini" | "claude" | "gpt-oss";
+
+/**
+ * Static description of an Antigravity model and its capabilities.
+ */
+export interface AntigravityModelInfo {
+  id: string;
+  name: string;
+  family: ModelFamily;
+  /** Maximum prompt + output tokens. */
+  contextLimit: number;
+  /** Maximum output tokens per response. */
+  outputLimit: number;
+  /** Whether the model supports extended thinking. */
+  thinking: boolean;
+  /** Thinking budget applied when the caller does not specify one. */
+  defaultThinkingBudget?: number;
+}
+
+/**
+ * Default token budget for thinking/reasoning. 16000 tokens provides sufficient
+ * space for complex reasoning while staying within typical model limits.
+ */
+export const DEFAULT_THINKING_BUDGET = 16000;
+
+/**
+ * Models known to be served by Antigravity, keyed by model ID.
+ */
+export const ANTIGRAVITY_MODELS: Readonly<Record<string, AntigravityModelInfo>> = {
+  "gemini-3-pro-high": {
+    id: "gemini-3-pro-high",
+    name: "Gemini 3 Pro High (Antigravity)",
+    family: "gemini",
+    contextLimit: 1048576,
+    outputLimit: 65535,
+    thinking: true,
+    defaultThinkingBudget: DEFAULT_THINKING_BUDGET,
+  },
+  "gemini-3-pro-low": {
+    id: "gemini-3-pro-low",
+    name: "Gemini 3 Pro Low (Antigravity)",
+    family: "gemini",
+    contextLimit: 1048576,
+    outputLimit: 65535,
+    thinking: true,
+    defaultThinkingBudget: DEFAULT_THINKING_BUDGET,
+  },
+  "claude-sonnet-4-5": {
+    id: "claude-sonnet-4-5",
+    name: "Claude Sonnet 4.5 (Antigravity)",
+    family: "claude",
+    contextLimit: 200000,
+    outputLimit: 64000,
+    thinking: false,
+  },
+  "claude-sonnet-4-5-thinking": {
+    id: "claude-sonnet-4-5-thinking",
+    name: "Claude Sonnet 4.5 Thinking (Antigravity)",
+    family: "claude",
+    contextLimit: 200000,
+    outputLimit: 64000,
+    thinking: true,
+    defaultThinkingBudget: DEFAULT_THINKING_BUDGET,
+  },
+  "claude-opus-4-5-thinking": {
+    id: "claude-opus-4-5-thinking",
+    name: "Claude Opus 4.5 Thinking (Antigravity)",
+    family: "claude",
+    contextLimit: 200000,
+    outputLimit: 64000,
+    thinking: true,
+    defaultThinkingBudget: DEFAULT_THINKING_BUDGET,
+  },
+  "gpt-oss-120b-medium": {
+    id: "gpt-oss-120b-medium",
+    name: "GPT-OSS 120B Medium (Antigravity)",
+    family: "gpt-oss",
+    contextLimit: 131072,
+    outputLimit: 32768,
+    thinking: false,
+  },
+};
+
+/**
+ * Strips provider prefixes (`google/`, `models/`) so catalog lookups match bare model IDs.
+ */
+export function normalizeModelId(model: string): string {
+  return model.trim().toLowerCase().replace(/^(?:google\/|models\/)+/, "");
+}
+
+/**
+ * Looks up a model in the catalog.
+ */
+export function getModelInfo(model: string | undefined): AntigravityModelInfo | undefined {
+  if (!model) {
+    return undefined;
+  }
+  return ANTIGRAVITY_MODELS[normalizeModelId(model)];
+}
+
+/**
+ * Resolves the model family from the catalog, inferring it from the ID prefix for models the
+ * catalog does not know yet.
+ */
+export function getModelFamily(model: string): ModelFamily {
+  const info = getModelInfo(model);
+  if (info) {
+    return info.family;
+  }
+  const id = normalizeModelId(model);
+  if (id.startsWith("claude")) {
+    return "claude";
+  }
+  if (id.startsWith("gpt-oss")) {
+    return "gpt-oss";
+  }
+  return "gemini";
+}
+
+/**
+ * Whether the model supports extended thinking. Unknown models are treated as thinking-capable
+ * when their ID advertises it.
+ */
+export function isThinkingCapableModel(model: string): boolean {
+  const info = getModelInfo(model);
+  if (info) {
+    return info.thinking;
+  }
+  const id = normalizeModelId(model);
+  return id.includes("thinking") || id.includes("gemini-3") || id.includes("opus");
+}
+
+/**
+ * Whether the model is known not to support thinking: catalog entries without it, GPT-OSS,
+ * and Claude models without thinking. Unknown models (e.g. discovered Gemini 2.5 models) are
+ * not, so callers can still set or disable their thinking budget.
+ */
+export function lacksThinkingSupport(model: string): boolean {
+  const info = getModelInfo(model);
+  if (info) {
+    return !info.thinking;
+  }
+  const family = getModelFamily(model);
+  return family === "gpt-oss" || (family === "claude" && !isThinkingCapableModel(model));
+}
+
+/**
+ * Whether the model honors `generationConfig.candidateCount`. Claude and GPT-OSS return a
+ * single candidate through Antigravity.
+ */
+export function supportsMultipleCandidates(model: string): boolean {
+  return getModelFamily(model) === "gemini";
+}
+
+/**
+ * Whether the target names a preview-gated Antigravity model (Claude/Opus, or an explicit
+ * "antigravity" mention such as in backend error messages). Catalog Gemini IDs do not match:
+ * a 404 for them is an ordinary error, not missing preview access.
+ */
+export function isAntigravityModel(target?: string): boolean {
+  if (!target) {
+    return false;
+  }
+
+  return /antigravity/i.test(target) || /opus/i.test(target) || /claude/i.test(target);
+}
+
+/**
+ * Adds catalog models missing from the provider config and fills in missing `limit` values,
+ * so users no longer have to declare every Antigravity model by hand.
+ */
+export function applyModelCatalog(provider: Provider): void {
+  const models = provider.models ?? (provider.models = {});
+
+  for (const info of Object.values(ANTIGRAVITY_MODELS)) {
+    const existing = models[info.id];
+    if (!existing) {
+      models[info.id] = {
+        id: info.id,
+        name: info.name,
+        limit: { context: info.contextLimit, output: info.outputLimit },
+      };
+      continue;
+    }
+    if (!existing.limit) {
+      existing.limit = { context: info.contextLimit, output: info.outputLimit };
+    }
+    if (!existing.name) {
+      existing.name = info.name;
+    }
+  }
+}
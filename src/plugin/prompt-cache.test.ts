@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+
+import { applyClaudePromptCache, stripCacheHints } from "./prompt-cache";
+
+const LONG_TEXT = "x".repeat(8000);
+
+function longRequest(): Record<string, any> {
+  return {
+    systemInstruction: { role: "user", parts: [{ text: "You are a coding agent." }] },
+    tools: [{ functionDeclarations: [{ name: "read" }, { name: "write" }] }],
+    contents: [
+      { role: "user", parts: [{ text: LONG_TEXT }] },
+      { role: "model", parts: [{ text: "ok" }] },
+      { role: "user", parts: [{ text: "next" }, { text: "step", thought: true }] },
+    ],
+  };
+}
+
+describe("applyClaudePromptCache", () => {
+  it("places automatic breakpoints on tools, system and the last two user turns", () => {
+    const payload = longRequest();
+    const adjustments: string[] = [];
+    applyClaudePromptCache(payload, adjustments, "auto");
+
+    expect(payload.tools[0].functionDeclarations[0].cacheControl).toBeUndefined();
+    expect(payload.tools[0].functionDeclarations[1].cacheControl).toEqual({ type: "ephemeral" });
+    expect(payload.systemInstruction.parts[0].cacheControl).toEqual({ type: "ephemeral" });
+    expect(payload.contents[0].parts[0].cacheControl).toEqual({ type: "ephemeral" });
+    expect(payload.contents[2].parts[0].cacheControl).toEqual({ type: "ephemeral" });
+    expect(payload.contents[2].parts[1].cacheControl).toBeUndefined();
+    expect(adjustments).toEqual(["added 4 prompt cache breakpoint(s)"]);
+  });
+
+  it("sends no breakpoints by default and reports removed caller hints", () => {
+    delete process.env.OPENCODE_ANTIGRAVITY_PROMPT_CACHE;
+    const payload = longRequest();
+    payload.contents[0].parts[0].cache_control = { type: "ephemeral" };
+    const adjustments: string[] = [];
+    applyClaudePromptCache(payload, adjustments);
+
+    expect(payload).toEqual(longRequest());
+    expect(adjustments).toEqual([
+      "removed 1 prompt cache hint(s) (prompt caching is off; set OPENCODE_ANTIGRAVITY_PROMPT_CACHE to send them)",
+    ]);
+  });
+
+  it("sends caller hints when opted in with the hints policy", () => {
+    const payload = longRequest();
+    payload.contents[0].parts[0].cache_control = { type: "ephemeral" };
+    const adjustments: string[] = [];
+    applyClaudePromptCache(payload, adjustments, "hints");
+
+    expect(payload.contents[0].parts[0]).toEqual({ text: LONG_TEXT, cacheControl: { type: "ephemeral" } });
+    expect(payload.systemInstruction.parts[0].cacheControl).toBeUndefined();
+    expect(adjustments).toEqual([]);
+  });
+
+  it("skips automatic breakpoints for prompts too short to cache", () => {
+    const payload = { contents: [{ role: "user", parts: [{ text: "hi" }] }] };
+    const adjustments: string[] = [];
+    applyClaudePromptCache(payload, adjustments, "auto");
+
+    expect(payload).toEqual({ contents: [{ role: "user", parts: [{ text: "hi" }] }] });
+    expect(adjustments).toEqual([]);
+  });
+
+  it("honors caller hints instead of placing its own, keeping the last four", () => {
+    const payload: Record<string, any> = {
+      contents: [
+        { role: "user", parts: [{ text: "a", cache_control: { type: "ephemeral" } }] },
+        { role: "model", parts: [{ text: "b", cache_control: { type: "ephemeral" } }] },
+        { role: "user", parts: [{ text: "c", cacheControl: { type: "ephemeral", ttl: "1h" } }] },
+        { role: "model", parts: [{ text: "d" }], cache_control: { type: "ephemeral" } },
+        { role: "user", parts: [{ text: LONG_TEXT, cache_control: true }] },
+      ],
+    };
+    const adjustments: string[] = [];
+    applyClaudePromptCache(payload, adjustments, "auto");
+
+    const hints = payload.contents.map((content: any) => content.parts[0].cacheControl);
+    expect(hints).toEqual([
+      undefined,
+      { type: "ephemeral" },
+      { type: "ephemeral", ttl: "1h" },
+      { type: "ephemeral" },
+      { type: "ephemeral" },
+    ]);
+    expect(payload.contents.some((content: any) => "cache_control" in content || "cache_control" in content.parts[0])).toBe(false);
+    expect(adjustments).toEqual(["dropped 1 prompt cache hint(s) over the 4 breakpoint limit"]);
+  });
+
+  it("removes every hint when prompt caching is off", () => {
+    const payload = longRequest();
+    payload.contents[0].parts[0].cache_control = { type: "ephemeral" };
+    const adjustments: string[] = [];
+    applyClaudePromptCache(payload, adjustments, "off");
+
+    expect(JSON.stringify(payload)).not.toMatch(/cache_?[cC]ontrol/);
+    expect(adjustments).toHaveLength(1);
+  });
+});
+
+describe("stripCacheHints", () => {
+  it("removes hints from tools, system parts and contents", () => {
+    const payload: Record<string, unknown> = {
+      systemInstruction: { parts: [{ text: "sys", cacheControl: { type: "ephemeral" } }] },
+      tools: [{ functionDeclarations: [{ name: "read", cache_control: { type: "ephemeral" } }] }],
+      contents: [{ role: "user", parts: [{ text: "hi" }], cache_control: { type: "ephemeral" } }],
+    };
+    const adjustments: string[] = [];
+    stripCacheHints(payload, adjustments);
+
+    expect(payload).toEqual({
+      systemInstruction: { parts: [{ text: "sys" }] },
+      tools: [{ functionDeclarations: [{ name: "read" }] }],
+      contents: [{ role: "user", parts: [{ text: "hi" }] }],
+    });
+    expect(adjustments).toEqual(["removed 3 prompt cache hint(s) unsupported by the model"]);
+  });
+});
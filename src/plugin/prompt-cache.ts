@@ -0,0 +1,229 @@
+import { env } from "node:process";
+
+import { estimatePromptTokens } from "./context-window";
+
+/**
+ * How Claude prompt-cache breakpoints are placed:
+ * - `auto`: use the caller's hints, or place breakpoints on tools, system and recent turns
+ * - `hints`: only honor `cache_control` / `cacheControl` hints sent by the caller
+ * - `off`: send no breakpoints, removing the caller's hints (default; the v1internal endpoint
+ *   is not confirmed to accept `cacheControl`, and unknown fields fail the request, so sending
+ *   breakpoints is opt-in)
+ */
+export type PromptCachePolicy = "auto" | "hints" | "off";
+
+const PROMPT_CACHE_POLICIES: readonly PromptCachePolicy[] = ["auto", "hints", "off"];
+
+/**
+ * Anthropic accepts at most four cache breakpoints per request.
+ */
+const MAX_CACHE_BREAKPOINTS = 4;
+
+/**
+ * Prompts shorter than this cannot be cached by Claude, so automatic breakpoints are skipped.
+ */
+const MIN_CACHEABLE_TOKENS = 1024;
+
+const DEFAULT_CACHE_CONTROL = { type: "ephemeral" };
+
+/**
+ * Reads the breakpoint policy from `OPENCODE_ANTIGRAVITY_PROMPT_CACHE` (default `off`).
+ */
+export function resolvePromptCachePolicy(): PromptCachePolicy {
+  const value = env.OPENCODE_ANTIGRAVITY_PROMPT_CACHE?.trim().toLowerCase();
+  return PROMPT_CACHE_POLICIES.find((policy) => policy === value) ?? "off";
+}
+
+/**
+ * Returns the cache hint (`cacheControl` or Anthropic `cache_control`) carried by a part,
+ * content, tool or declaration, normalized to `{ type: "ephemeral", ... }`.
+ */
+export function cacheHintOf(value: unknown): Record<string, unknown> | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  const hint = record.cacheControl ?? record.cache_control;
+  if (!hint) {
+    return undefined;
+  }
+  return typeof hint === "object" && typeof (hint as Record<string, unknown>).type === "string"
+    ? { ...(hint as Record<string, unknown>) }
+    : { ...DEFAULT_CACHE_CONTROL };
+}
+
+function withoutHint(value: any): any {
+  const { cacheControl: _cacheControl, cache_control: _cacheControlSnake, ...rest } = value;
+  return rest;
+}
+
+/**
+ * A place a breakpoint can go: a system part, a function declaration or a content part.
+ */
+interface CacheTarget {
+  get(): any;
+  set(value: any): void;
+}
+
+function arrayTarget(array: any[], index: number): CacheTarget {
+  return { get: () => array[index], set: (value) => { array[index] = value; } };
+}
+
+/**
+ * Removes every cache hint from the request in place, moving content-level hints onto the
+ * content's last part first. Returns the hints found, in prompt order (tools, system, history),
+ * each with the target it was attached to.
+ */
+function takeCacheHints(requestPayload: Record<string, unknown>): { target: CacheTarget; hint: Record<string, unknown> }[] {
+  const found: { target: CacheTarget; hint: Record<string, unknown> }[] = [];
+  const take = (array: any[], index: number) => {
+    const hint = cacheHintOf(array[index]);
+    if (hint) {
+      array[index] = withoutHint(array[index]);
+      found.push({ target: arrayTarget(array, index), hint });
+    }
+  };
+
+  if (Array.isArray(requestPayload.tools)) {
+    requestPayload.tools = requestPayload.tools.map((tool: any) => {
+      if (!tool || typeof tool !== "object") {
+        return tool;
+      }
+      const toolHint = cacheHintOf(tool);
+      const declarations = Array.isArray(tool.functionDeclarations) ? [...tool.functionDeclarations] : undefined;
+      if (declarations && declarations.length > 0) {
+        declarations.forEach((_declaration, index) => take(declarations, index));
+        if (toolHint && !cacheHintOf(tool.functionDeclarations.at(-1))) {
+          found.push({ target: arrayTarget(declarations, declarations.length - 1), hint: toolHint });
+        }
+        return { ...withoutHint(tool), functionDeclarations: declarations };
+      }
+      return toolHint ? withoutHint(tool) : tool;
+    });
+  }
+
+  const systemInstruction = requestPayload.systemInstruction as Record<string, unknown> | undefined;
+  if (systemInstruction && Array.isArray(systemInstruction.parts)) {
+    const parts = [...systemInstruction.parts];
+    parts.forEach((_part, index) => take(parts, index));
+    requestPayload.systemInstruction = { ...systemInstruction, parts };
+  }
+
+  if (Array.isArray(requestPayload.contents)) {
+    requestPayload.contents = requestPayload.contents.map((content: any) => {
+      if (!content || typeof content !== "object" || !Array.isArray(content.parts)) {
+        return content;
+      }
+      const contentHint = cacheHintOf(content);
+      const parts = [...content.parts];
+      parts.forEach((_part, index) => take(parts, index));
+      const lastIndex = lastCacheablePartIndex(parts);
+      if (contentHint && lastIndex >= 0 && !cacheHintOf(content.parts[lastIndex])) {
+        found.push({ target: arrayTarget(parts, lastIndex), hint: contentHint });
+      }
+      return { ...withoutHint(content), parts };
+    });
+  }
+  return found;
+}
+
+/**
+ * Index of the last part a breakpoint can be attached to; Anthropic rejects breakpoints on
+ * thinking blocks.
+ */
+function lastCacheablePartIndex(parts: any[]): number {
+  for (let i = parts.length - 1; i >= 0; i--) {
+    if (parts[i] && typeof parts[i] === "object" && parts[i].thought !== true) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Automatic breakpoints: the last tool declaration, the system instruction and the last two
+ * user turns. The newest turn writes the cache for the next request; the previous one reads
+ * what the last request wrote.
+ */
+function automaticTargets(requestPayload: Record<string, unknown>): CacheTarget[] {
+  const targets: CacheTarget[] = [];
+
+  const tools = Array.isArray(requestPayload.tools) ? requestPayload.tools : [];
+  const declarationTool = tools.findLast((tool: any) => Array.isArray(tool?.functionDeclarations) && tool.functionDeclarations.length > 0);
+  if (declarationTool) {
+    targets.push(arrayTarget(declarationTool.functionDeclarations, declarationTool.functionDeclarations.length - 1));
+  }
+
+  const systemParts = (requestPayload.systemInstruction as { parts?: any[] } | undefined)?.parts;
+  if (Array.isArray(systemParts) && systemParts.length > 0) {
+    targets.push(arrayTarget(systemParts, systemParts.length - 1));
+  }
+
+  const contents = Array.isArray(requestPayload.contents) ? requestPayload.contents : [];
+  const turnTargets: CacheTarget[] = [];
+  for (let i = contents.length - 1; i >= 0 && turnTargets.length < 2; i--) {
+    const content = contents[i];
+    if (content?.role !== "user" || !Array.isArray(content.parts)) {
+      continue;
+    }
+    const index = lastCacheablePartIndex(content.parts);
+    if (index >= 0) {
+      turnTargets.unshift(arrayTarget(content.parts, index));
+    }
+  }
+  return [...targets, ...turnTargets];
+}
+
+/**
+ * Places Claude prompt-cache breakpoints as `cacheControl` on parts and function declarations.
+ * Caller hints (`cache_control` or `cacheControl` on system parts, tools, contents or parts) are
+ * honored first, keeping the last four. Without hints, the `auto` policy marks tools, the
+ * system instruction and the last two user turns once the prompt is long enough to be cached.
+ */
+export function applyClaudePromptCache(
+  requestPayload: Record<string, unknown>,
+  adjustments: string[],
+  policy: PromptCachePolicy = resolvePromptCachePolicy(),
+): void {
+  const hints = takeCacheHints(requestPayload);
+  if (policy === "off") {
+    if (hints.length > 0) {
+      adjustments.push(
+        `removed ${hints.length} prompt cache hint(s) (prompt caching is off; set OPENCODE_ANTIGRAVITY_PROMPT_CACHE to send them)`,
+      );
+    }
+    return;
+  }
+
+  if (hints.length > 0) {
+    const dropped = Math.max(0, hints.length - MAX_CACHE_BREAKPOINTS);
+    for (const { target, hint } of hints.slice(dropped)) {
+      target.set({ ...target.get(), cacheControl: hint });
+    }
+    if (dropped > 0) {
+      adjustments.push(`dropped ${dropped} prompt cache hint(s) over the ${MAX_CACHE_BREAKPOINTS} breakpoint limit`);
+    }
+    return;
+  }
+
+  if (policy !== "auto" || estimatePromptTokens(requestPayload) < MIN_CACHEABLE_TOKENS) {
+    return;
+  }
+  const targets = automaticTargets(requestPayload).slice(-MAX_CACHE_BREAKPOINTS);
+  for (const target of targets) {
+    target.set({ ...target.get(), cacheControl: { ...DEFAULT_CACHE_CONTROL } });
+  }
+  if (targets.length > 0) {
+    adjustments.push(`added ${targets.length} prompt cache breakpoint(s)`);
+  }
+}
+
+/**
+ * Removes prompt-cache hints for upstreams without Claude-style prompt caching.
+ */
+export function stripCacheHints(requestPayload: Record<string, unknown>, adjustments: string[]): void {
+  const hints = takeCacheHints(requestPayload);
+  if (hints.length > 0) {
+    adjustments.push(`removed ${hints.length} prompt cache hint(s) unsupported by the model`);
+  }
+}
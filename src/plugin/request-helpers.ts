@@ -1,3 +1,11 @@
+import { DEFAULT_THINKING_BUDGET, isAntigravityModel } from "./models";
+import {
+  defaultReasoningEffort,
+  parseReasoningEffort,
+  resolveEffortBudget,
+  type ReasoningEffort,
+} from "./thinking-budget";
+
 const ANTIGRAVITY_PREVIEW_LINK = "https://goo.gle/enable-preview-features"; // TODO: Update to Antigravity link if available
 
 export interface AntigravityApiError {
@@ -24,6 +32,8 @@ export interface AntigravityUsageMetadata {
   promptTokenCount?: number;
   candidatesTokenCount?: number;
   cachedContentTokenCount?: number;
+  /** Tokens written to the Claude prompt cache by this request. */
+  cacheCreationTokenCount?: number;
 }
 
 /**
@@ -35,41 +45,56 @@ export interface ThinkingConfig {
 }
 
 /**
- * Default token budget for thinking/reasoning. 16000 tokens provides sufficient
- * space for complex reasoning while staying within typical model limits.
- */
-export const DEFAULT_THINKING_BUDGET = 16000;
-
-/**
- * Checks if a model name indicates thinking/reasoning capability.
- * Models with "thinking", "gemini-3", or "opus" in their name support extended thinking.
+ * Thinking configuration requested by the caller, with a description of where the budget came
+ * from (e.g. `reasoning_effort=high`) for debug output.
  */
-export function isThinkingCapableModel(modelName: string): boolean {
-  const lowerModel = modelName.toLowerCase();
-  return lowerModel.includes("thinking")
-    || lowerModel.includes("gemini-3")
-    || lowerModel.includes("opus");
+export interface RequestedThinkingConfig extends ThinkingConfig {
+  source: string;
 }
 
 /**
  * Extracts thinking configuration from various possible request locations.
- * Supports both Gemini-style thinkingConfig and Anthropic-style thinking options.
+ * Supports Gemini-style thinkingConfig (`thinkingBudget` or Gemini 3 `thinkingLevel`),
+ * Anthropic-style thinking options and OpenAI-style `reasoning_effort`. Effort levels and
+ * missing budgets map onto the model's per-effort budgets; a model variant suffix such as
+ * `-low` sets the default effort.
  */
 export function extractThinkingConfig(
   requestPayload: Record<string, unknown>,
   rawGenerationConfig: Record<string, unknown> | undefined,
   extraBody: Record<string, unknown> | undefined,
-): ThinkingConfig | undefined {
+  model = "",
+): RequestedThinkingConfig | undefined {
+  const reasoningEffort = parseReasoningEffort(
+    requestPayload.reasoning_effort
+      ?? requestPayload.reasoningEffort
+      ?? extraBody?.reasoning_effort
+      ?? extraBody?.reasoningEffort,
+  );
+  const fromEffort = (effort: ReasoningEffort, source: string, includeThoughts: boolean): RequestedThinkingConfig => {
+    const thinkingBudget = resolveEffortBudget(model, effort);
+    return { includeThoughts: thinkingBudget > 0 && includeThoughts, thinkingBudget, source };
+  };
+
   const thinkingConfig = rawGenerationConfig?.thinkingConfig
     ?? extraBody?.thinkingConfig
     ?? requestPayload.thinkingConfig;
 
   if (thinkingConfig && typeof thinkingConfig === "object") {
     const config = thinkingConfig as Record<string, unknown>;
-    return {
-      includeThoughts: Boolean(config.includeThoughts),
-      thinkingBudget: typeof config.thinkingBudget === "number" ? config.thinkingBudget : DEFAULT_THINKING_BUDGET,
-    };
+    const includeThoughts = Boolean(config.includeThoughts);
+    if (typeof config.thinkingBudget === "number") {
+      return { includeThoughts, thinkingBudget: config.thinkingBudget, source: "thinkingConfig.thinkingBudget" };
+    }
+    const thinkingLevel = parseReasoningEffort(config.thinkingLevel ?? config.thinking_level);
+    if (thinkingLevel) {
+      return fromEffort(thinkingLevel, `thinkingLevel=${thinkingLevel}`, includeThoughts);
+    }
+    if (reasoningEffort) {
+      return fromEffort(reasoningEffort, `reasoning_effort=${reasoningEffort}`, includeThoughts);
+    }
+    const effort = defaultReasoningEffort(model);
+    return fromEffort(effort, `default effort ${effort}`, includeThoughts);
   }
 
   // Convert Anthropic-style "thinking" option: { type: "enabled", budgetTokens: N }
@@ -77,33 +102,45 @@ export function extractThinkingConfig(
   if (anthropicThinking && typeof anthropicThinking === "object") {
     const thinking = anthropicThinking as Record<string, unknown>;
     if (thinking.type === "enabled" || thinking.budgetTokens) {
-      return {
-        includeThoughts: true,
-        thinkingBudget: typeof thinking.budgetTokens === "number" ? thinking.budgetTokens : DEFAULT_THINKING_BUDGET,
-      };
+      if (typeof thinking.budgetTokens === "number") {
+        return { includeThoughts: true, thinkingBudget: thinking.budgetTokens, source: "thinking.budgetTokens" };
+      }
+      const effort = reasoningEffort ?? defaultReasoningEffort(model);
+      return fromEffort(effort, reasoningEffort ? `reasoning_effort=${effort}` : `default effort ${effort}`, true);
     }
   }
 
+  if (reasoningEffort) {
+    return fromEffort(reasoningEffort, `reasoning_effort=${reasoningEffort}`, true);
+  }
+
   return undefined;
 }
 
 /**
  * Determines the final thinking configuration based on model capabilities and user settings.
- * Claude models require signed thinking blocks for multi-turn conversations.
- * Since previous thinking blocks may lack signatures, we disable thinking for Claude multi-turn.
+ * Thinking models get the default budget when the caller asks for none; for other models the
+ * caller's config is passed through (callers drop it first for models known to lack thinking).
+ * Claude requires the tool-use turn being answered to start with a signed thinking block.
+ * When that signature is unavailable (neither sent by the client nor cached), thinking is disabled.
  */
 export function resolveThinkingConfig(
   userConfig: ThinkingConfig | undefined,
   isThinkingModel: boolean,
   isClaudeModel: boolean,
-  hasAssistantHistory: boolean,
+  hasUnsignedToolTurn: boolean,
+  defaultBudget: number = DEFAULT_THINKING_BUDGET,
 ): ThinkingConfig | undefined {
-  if (isClaudeModel && hasAssistantHistory) {
+  if (!isThinkingModel) {
+    return userConfig;
+  }
+
+  if (isClaudeModel && hasUnsignedToolTurn) {
     return { includeThoughts: false, thinkingBudget: 0 };
   }
 
-  if (isThinkingModel && !userConfig) {
-    return { includeThoughts: true, thinkingBudget: DEFAULT_THINKING_BUDGET };
+  if (!userConfig) {
+    return { includeThoughts: true, thinkingBudget: defaultBudget };
   }
 
   return userConfig;
@@ -129,6 +166,28 @@ function hasValidSignature(part: Record<string, unknown>): boolean {
   return Boolean(part.signature);
 }
 
+/**
+ * Checks whether the latest model turn issued tool calls without a signed thinking block.
+ * Claude rejects thinking-enabled requests that continue such a turn.
+ */
+export function lastToolTurnLacksSignedThinking(contents: any[]): boolean {
+  for (let i = contents.length - 1; i >= 0; i -= 1) {
+    const content = contents[i];
+    if (content?.role !== "model" && content?.role !== "assistant") {
+      continue;
+    }
+    const parts: any[] = Array.isArray(content.parts) ? content.parts : [];
+    const hasToolCall = parts.some((part) => part && typeof part === "object" && part.functionCall);
+    if (!hasToolCall) {
+      return false;
+    }
+    return !parts.some((part) =>
+      part && typeof part === "object" && isThinkingPart(part) && hasValidSignature(part),
+    );
+  }
+  return false;
+}
+
 /**
  * Filters out unsigned thinking blocks from contents (required by Claude API).
  */
@@ -325,9 +384,33 @@ export function extractUsageMetadata(body: AntigravityApiBody): AntigravityUsage
     promptTokenCount: toNumber(asRecord.promptTokenCount),
     candidatesTokenCount: toNumber(asRecord.candidatesTokenCount),
     cachedContentTokenCount: toNumber(asRecord.cachedContentTokenCount),
+    cacheCreationTokenCount: toNumber(
+      asRecord.cacheCreationTokenCount ?? asRecord.cacheCreationInputTokens ?? asRecord.cache_creation_input_tokens,
+    ),
   };
 }
 
+/**
+ * Reports prompt-cache writes under `usageMetadata.cacheCreationTokenCount` when the upstream
+ * uses an Anthropic-style name for them, so streamed events expose the count that
+ * non-streaming responses carry in headers.
+ */
+export function normalizeCacheUsage(response: unknown): unknown {
+  if (!response || typeof response !== "object") {
+    return response;
+  }
+  const usage = (response as Record<string, unknown>).usageMetadata;
+  if (!usage || typeof usage !== "object") {
+    return response;
+  }
+  const { cacheCreationInputTokens, cache_creation_input_tokens, ...rest } = usage as Record<string, unknown>;
+  const written = rest.cacheCreationTokenCount ?? cacheCreationInputTokens ?? cache_creation_input_tokens;
+  if (written === undefined) {
+    return response;
+  }
+  return { ...response, usageMetadata: { ...rest, cacheCreationTokenCount: written } };
+}
+
 /**
  * Walks SSE lines to find a usage-bearing response chunk.
  */
@@ -400,12 +483,3 @@ function needsPreviewAccessOverride(
   const errorMessage = typeof body.error?.message === "string" ? body.error.message : "";
   return isAntigravityModel(errorMessage);
 }
-
-function isAntigravityModel(target?: string): boolean {
-  if (!target) {
-    return false;
-  }
-
-  // Check for Antigravity models instead of Gemini 3
-  return /antigravity/i.test(target) || /opus/i.test(target) || /claude/i.test(target);
-}
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  createLocalErrorResponse,
+  prepareAntigravityRequest,
+  transformAntigravityResponse,
+  type AntigravityRequestContext,
+} from "./request";
+
+describe("createLocalErrorResponse", () => {
+  it("percent-encodes adjustments that are not valid header values", async () => {
+    const context: AntigravityRequestContext = {
+      family: "claude",
+      toolNames: { toUpstream: new Map(), toOriginal: new Map() },
+      adjustments: ["inlined file:///tmp/报告.png", "tool\nname"],
+      localError: { code: 400, status: "INVALID_ARGUMENT", message: "Request rejected." },
+    };
+
+    const response = createLocalErrorResponse(context);
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("x-antigravity-request-adjustments")).toBe(
+      "inlined file:///tmp/%E6%8A%A5%E5%91%8A.png; tool%0Aname",
+    );
+    expect(await response.json()).toEqual({ error: context.localError });
+  });
+});
+
+describe("transformAntigravityResponse", () => {
+  it("reports prompt-cache writes in the usage metadata of streamed events", async () => {
+    const usageMetadata = { promptTokenCount: 3000, candidatesTokenCount: 5, cacheCreationInputTokens: 2048 };
+    const upstream = new Response(
+      `data: ${JSON.stringify({ response: { candidates: [], usageMetadata } })}\n\n`,
+      { headers: { "content-type": "text/event-stream" } },
+    );
+
+    const response = await transformAntigravityResponse(upstream, true);
+    const event = JSON.parse((await response.text()).trim().slice("data:".length));
+
+    expect(event.usageMetadata).toEqual({ promptTokenCount: 3000, candidatesTokenCount: 5, cacheCreationTokenCount: 2048 });
+  });
+
+  it("reports the cache counts of streamed responses in headers", async () => {
+    const first = { candidates: [], usageMetadata: { promptTokenCount: 3000, cachedContentTokenCount: 2048 } };
+    const last = { candidates: [], usageMetadata: { promptTokenCount: 3000, cachedContentTokenCount: 2048, candidatesTokenCount: 9 } };
+    const upstream = new Response(
+      `data: ${JSON.stringify({ response: first })}\n\ndata: ${JSON.stringify({ response: last })}\n\n`,
+      { headers: { "content-type": "text/event-stream" } },
+    );
+
+    const response = await transformAntigravityResponse(upstream, true);
+
+    expect(response.headers.get("x-antigravity-cached-content-token-count")).toBe("2048");
+    expect(response.headers.get("x-antigravity-prompt-token-count")).toBe("3000");
+    expect(response.headers.get("x-antigravity-candidates-token-count")).toBeNull();
+    const events = (await response.text()).trim().split("\n\n");
+    expect(events.map((event) => JSON.parse(event.slice("data:".length)).usageMetadata.candidatesTokenCount))
+      .toEqual([undefined, 9]);
+  });
+});
+
+describe("prepareAntigravityRequest", () => {
+  it("ignores reasoning effort for models without thinking support", () => {
+    const body = {
+      contents: [{ role: "user", parts: [{ text: "hi" }] }],
+      generationConfig: { thinkingConfig: { thinkingBudget: 8192, includeThoughts: true } },
+    };
+    const { init, context } = prepareAntigravityRequest(
+      "https://generativelanguage.googleapis.com/v1beta/models/claude-sonnet-4-5:generateContent",
+      { method: "POST", body: JSON.stringify(body) },
+      "access-token",
+      "project-1",
+    );
+
+    const wrapped = JSON.parse(init.body as string);
+    expect(wrapped.request.generationConfig?.thinkingConfig).toBeUndefined();
+    expect(context?.thinkingSource).toBeUndefined();
+    expect(context?.adjustments).toContain(
+      "thinkingConfig.thinkingBudget ignored (claude-sonnet-4-5 does not support thinking)",
+    );
+  });
+
+  it("passes thinking settings through for models not known to lack thinking", () => {
+    const body = {
+      contents: [{ role: "user", parts: [{ text: "hi" }] }],
+      generationConfig: { thinkingConfig: { thinkingBudget: 0 } },
+    };
+    const { init, context } = prepareAntigravityRequest(
+      "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent",
+      { method: "POST", body: JSON.stringify(body) },
+      "access-token",
+      "project-1",
+    );
+
+    const wrapped = JSON.parse(init.body as string);
+    expect(wrapped.request.generationConfig.thinkingConfig).toMatchObject({ thinkingBudget: 0 });
+    expect(context?.adjustments.some((adjustment) => adjustment.includes("does not support thinking"))).toBe(false);
+  });
+
+  describe("with a compacting context-window policy", () => {
+    afterEach(() => {
+      delete process.env.OPENCODE_ANTIGRAVITY_CONTEXT_POLICY;
+    });
+
+    it("reports truncated tool outputs in the response headers", async () => {
+      process.env.OPENCODE_ANTIGRAVITY_CONTEXT_POLICY = "truncate-tools";
+      const body = {
+        contents: [
+          { role: "user", parts: [{ text: "z".repeat(480000) }] },
+          { role: "model", parts: [{ functionCall: { id: "call-1", name: "read", args: {} } }] },
+          { role: "user", parts: [{ functionResponse: { id: "call-1", name: "read", response: { output: "x".repeat(50000) } } }] },
+        ],
+        generationConfig: { maxOutputTokens: 64000 },
+      };
+      const { context } = prepareAntigravityRequest(
+        "https://generativelanguage.googleapis.com/v1beta/models/claude-sonnet-4-5:generateContent",
+        { method: "POST", body: JSON.stringify(body) },
+        "access-token",
+        "project-1",
+      );
+      const upstream = new Response(JSON.stringify({ response: { candidates: [] } }), {
+        headers: { "content-type": "application/json" },
+      });
+
+      const response = await transformAntigravityResponse(
+        upstream, false, null, undefined, undefined, undefined, undefined, undefined, undefined, undefined, context,
+      );
+
+      expect(response.headers.get("x-antigravity-request-adjustments")).toContain(
+        "truncated 1 tool output(s) (read) to 2000 characters to fit the context window",
+      );
+    });
+  });
+});
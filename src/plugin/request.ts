@@ -4,19 +4,57 @@ import {
   ANTIGRAVITY_ENDPOINT,
 } from "../constants";
 import { logAntigravityDebugResponse, type AntigravityDebugContext } from "./debug";
+import {
+  getFamilyAdapter,
+  getModelAdapter,
+  type AdapterRequestState,
+  type ToolDebugState,
+} from "./adapters";
 import {
   extractThinkingConfig,
   extractUsageFromSsePayload,
   extractUsageMetadata,
-  filterUnsignedThinkingBlocks,
-  isThinkingCapableModel,
-  normalizeThinkingConfig,
+  normalizeCacheUsage,
   parseAntigravityApiBody,
-  resolveThinkingConfig,
   rewriteAntigravityPreviewAccessError,
   transformThinkingParts,
   type AntigravityApiBody,
+  type AntigravityUsageMetadata,
 } from "./request-helpers";
+import { countUserTurns, readCallerSessionId, resolveSessionId, SESSION_ID_RESPONSE_HEADER } from "./session";
+import { resolveCandidateEmulation } from "./candidates";
+import { renderCodeExecutionParts } from "./code-execution";
+import { processImageOutput, resolveImageOutputDir } from "./image-output";
+import { normalizeContents } from "./contents";
+import {
+  collectGroundingSources,
+  createGroundingState,
+  flushGroundingSources,
+  hasGroundingTools,
+  type GroundingState,
+} from "./grounding";
+import { MediaInputError, normalizeMediaInput } from "./media";
+import { extractSystemParts } from "./system-instruction";
+import { deriveConversationKey } from "./conversation";
+import { constrainGenerationConfig } from "./generation-config";
+import { enforceContextWindow } from "./context-window";
+import { limitToolResults } from "./tool-result-limits";
+import { buildCountTokensBody, COUNT_TOKENS_ACTION, toPublicCountTokensResponse } from "./count-tokens";
+import { lacksThinkingSupport, type ModelFamily } from "./models";
+import { defaultReasoningEffort, resolveEffortBudget } from "./thinking-budget";
+import {
+  collectStructuredOutput,
+  createStructuredOutputError,
+  validateStructuredOutput,
+  type StructuredOutputState,
+} from "./structured-output";
+import { commitThinkingCapture, type ThinkingCapture } from "./thinking-cache";
+import {
+  applyToolNamesToContents,
+  createToolNameMapping,
+  restoreToolNames,
+  type ToolNameMapping,
+} from "./tool-names";
 
 function generateSyntheticProjectId(): string {
   const adjectives = ["useful", "bright", "swift", "calm", "bold"];
@@ -29,6 +67,114 @@ function generateSyntheticProjectId(): string {
 
 const STREAM_ACTION = "streamGenerateContent";
 
+/**
+ * Envelope Antigravity expects around a Gemini-style generate request.
+ */
+interface AntigravityWrappedBody {
+  project: string;
+  model: string;
+  userAgent: string;
+  requestId: string;
+  request: Record<string, unknown> & { sessionId?: string };
+}
+
+/**
+ * Per-request state captured while preparing a request and needed again when its response
+ * is transformed.
+ */
+export interface AntigravityRequestContext {
+  /** Family of the target model; selects the adapter that shapes the response. */
+  family: ModelFamily;
+  toolNames: ToolNameMapping;
+  thinking?: ThinkingCapture;
+  /** Set for Gemini models so functionCall thoughtSignatures are recorded for the next turn. */
+  signatureConversationKey?: string;
+  /** Stable per-conversation session ID sent upstream and echoed in response headers. */
+  sessionId?: string;
+  /** Number of user turns in the request, for correlating requests within a session. */
+  turn?: number;
+  /** Set for `:countTokens` calls so the response is translated back to `{ totalTokens }`. */
+  countTokens?: boolean;
+  structuredOutput?: StructuredOutputState;
+  /** Grounding/citation sources collected from the response, rendered as a source list. */
+  grounding?: GroundingState;
+  /** Directory generated images are written to instead of being returned inline. */
+  imageOutputDir?: string;
+  /** Set when `candidateCount` is emulated; that many upstream requests are sent in parallel. */
+  candidateCount?: number;
+  /** How the thinking budget was chosen (e.g. `reasoning_effort=high -> thinkingBudget 32768`). */
+  thinkingSource?: string;
+  /** Human-readable descriptions of changes made to the caller's request (clamped fields etc.). */
+  adjustments: string[];
+  /** Set when the request is rejected locally; it is answered without calling upstream. */
+  localError?: { code: number; status: string; message: string };
+}
+
+/**
+ * Response header listing the adjustments made to the request, separated by "; ".
+ */
+const ADJUSTMENTS_RESPONSE_HEADER = "x-antigravity-request-adjustments";
+
+/**
+ * Percent-encodes characters outside printable ASCII (file names, tool names, control
+ * characters) so the value can be used in a header; `Headers` rejects non-Latin-1 values.
+ */
+function toHeaderValue(value: string): string {
+  return value.replace(/[^\x20-\x7e]+/g, (run) => {
+    try {
+      return encodeURIComponent(run);
+    } catch {
+      // Lone surrogates cannot be encoded.
+      return "?";
+    }
+  });
+}
+
+/**
+ * Exposes per-request context (session ID, request adjustments) through response headers.
+ */
+function applyContextHeaders(headers: Headers, context?: AntigravityRequestContext): void {
+  if (context?.sessionId) {
+    headers.set(SESSION_ID_RESPONSE_HEADER, toHeaderValue(context.sessionId));
+  }
+  if (context && context.adjustments.length > 0) {
+    headers.set(ADJUSTMENTS_RESPONSE_HEADER, toHeaderValue(context.adjustments.join("; ")));
+  }
+}
+
+/**
+ * Builds the response for a request rejected locally by `prepareAntigravityRequest`.
+ */
+export function createLocalErrorResponse(context: AntigravityRequestContext): Response {
+  const error = context.localError ?? { code: 400, status: "INVALID_ARGUMENT", message: "Request rejected." };
+  const headers = new Headers({ "content-type": "application/json" });
+  applyContextHeaders(headers, context);
+  return new Response(JSON.stringify({ error }), {
+    status: error.code,
+    headers,
+  });
+}
+
+/**
+ * Applies all response-side rewrites to a single inner `response` object.
+ */
+function transformResponsePayload(response: unknown, context?: AntigravityRequestContext): unknown {
+  let transformed = restoreToolNames(
+    processImageOutput(renderCodeExecutionParts(transformThinkingParts(normalizeCacheUsage(response))), context?.imageOutputDir),
+    context?.toolNames,
+  );
+  if (!context) {
+    return transformed;
+  }
+  if (context.structuredOutput) {
+    transformed = collectStructuredOutput(transformed, context.structuredOutput);
+  }
+  if (context.grounding) {
+    transformed = collectGroundingSources(transformed, context.grounding);
+  }
+  return getFamilyAdapter(context.family).normalizeResponse(transformed, context);
+}
+
 /**
  * Detects requests headed to the Google Generative Language API so we can intercept them.
  */
@@ -40,7 +186,7 @@ export function isGenerativeLanguageRequest(input: RequestInfo): input is string
  * Rewrites SSE payloads so downstream consumers see only the inner `response` objects,
  * with thinking/reasoning blocks transformed to OpenCode's expected format.
  */
-function transformStreamingPayload(payload: string): string {
+function transformStreamingPayload(payload: string, context?: AntigravityRequestContext): string {
   return payload
     .split("\n")
     .map((line) => {
@@ -54,7 +200,7 @@ function transformStreamingPayload(payload: string): string {
       try {
         const parsed = JSON.parse(json) as { response?: unknown };
         if (parsed.response !== undefined) {
-          const transformed = transformThinkingParts(parsed.response);
+          const transformed = transformResponsePayload(parsed.response, context);
           return `data: ${JSON.stringify(transformed)}`;
         }
       } catch (_) { }
@@ -119,7 +265,9 @@ function transformSseLine(line: string): string {
 
 /**
  * Rewrites OpenAI-style requests into Antigravity shape, normalizing model, headers,
- * optional cached_content, and thinking config. Also toggles streaming mode for SSE actions.
+ * optional cached_content, and thinking config. Also toggles streaming mode for SSE actions
+ * and reshapes countTokens calls for the internal endpoint. Family-specific shaping (history,
+ * thinking, tools) is delegated to the model family's adapter.
  */
 export function prepareAntigravityRequest(
   input: RequestInfo,
@@ -127,12 +275,11 @@ export function prepareAntigravityRequest(
   accessToken: string,
   projectId: string,
   endpointOverride?: string,
-): { request: RequestInfo; init: RequestInit; streaming: boolean; requestedModel?: string; effectiveModel?: string; projectId?: string; endpoint?: string; toolDebugMissing?: number; toolDebugSummary?: string; toolDebugPayload?: string } {
+): { request: RequestInfo; init: RequestInit; streaming: boolean; requestedModel?: string; effectiveModel?: string; projectId?: string; endpoint?: string; toolDebugMissing?: number; toolDebugSummary?: string; toolDebugPayload?: string; context?: AntigravityRequestContext } {
   const baseInit: RequestInit = { ...init };
   const headers = new Headers(init?.headers ?? {});
   let resolvedProjectId = projectId?.trim() || "";
-  let toolDebugMissing = 0;
-  const toolDebugSummaries: string[] = [];
+  const toolDebug: ToolDebugState = { missing: 0, summaries: [] };
   let toolDebugPayload: string | undefined;
 
   if (!isGenerativeLanguageRequest(input)) {
@@ -162,7 +309,12 @@ export function prepareAntigravityRequest(
   const baseEndpoint = endpointOverride ?? ANTIGRAVITY_ENDPOINT;
   const transformedUrl = `${baseEndpoint}/v1internal:${rawAction}${streaming ? "?alt=sse" : ""
     }`;
-  const isClaudeModel = upstreamModel.toLowerCase().includes("claude");
+  const adapter = getModelAdapter(upstreamModel);
+  const context: AntigravityRequestContext = {
+    family: adapter.family,
+    toolNames: createToolNameMapping(),
+    adjustments: [],
+  };
 
   let body = baseInit.body;
   if (typeof baseInit.body === "string" && baseInit.body) {
@@ -176,26 +328,76 @@ export function prepareAntigravityRequest(
           model: effectiveModel,
         } as Record<string, unknown>;
         body = JSON.stringify(wrappedBody);
+      } else if (rawAction === COUNT_TOKENS_ACTION) {
+        // countTokens takes only contents: no project wrapper, generation or thinking config
+        context.countTokens = true;
+        body = JSON.stringify(buildCountTokensBody(parsedBody, upstreamModel, context.adjustments));
       } else {
         const requestPayload: Record<string, unknown> = { ...parsedBody };
 
         const rawGenerationConfig = requestPayload.generationConfig as Record<string, unknown> | undefined;
         const extraBody = requestPayload.extra_body as Record<string, unknown> | undefined;
 
+        const adapterState: AdapterRequestState = {
+          model: upstreamModel,
+          context,
+          toolDebug,
+        };
+
+        // Merge every system-instruction shape (including system turns); the adapter builds
+        // the form its family accepts
+        const systemInstruction = adapter.shapeSystemInstruction(extractSystemParts(requestPayload), adapterState);
+        if (systemInstruction) {
+          requestPayload.systemInstruction = systemInstruction;
+        }
+
+        // Fix role names, empty parts and turn order before anything inspects the history
+        if (Array.isArray(requestPayload.contents)) {
+          const normalized = normalizeContents(requestPayload.contents);
+          requestPayload.contents = normalized.contents;
+          context.adjustments.push(...normalized.fixes);
+        }
+
+        // Inline local files and check attachments against the model family's media limits
+        if (Array.isArray(requestPayload.contents)) {
+          try {
+            const media = normalizeMediaInput(requestPayload.contents, adapter.family);
+            requestPayload.contents = media.contents;
+            context.adjustments.push(...media.adjustments);
+          } catch (error) {
+            if (!(error instanceof MediaInputError)) {
+              throw error;
+            }
+            context.localError = { code: 400, status: "INVALID_ARGUMENT", message: error.message };
+          }
+        }
+
         // Resolve thinking configuration based on user settings and model capabilities
-        const userThinkingConfig = extractThinkingConfig(requestPayload, rawGenerationConfig, extraBody);
-        const hasAssistantHistory = Array.isArray(requestPayload.contents) &&
-          requestPayload.contents.some((c: any) => c?.role === "model" || c?.role === "assistant");
+        const userThinkingConfig = extractThinkingConfig(requestPayload, rawGenerationConfig, extraBody, upstreamModel);
+        const defaultEffort = defaultReasoningEffort(upstreamModel);
+        const conversationKey = deriveConversationKey(requestPayload, readCallerSessionId(headers));
+        adapterState.conversationKey = conversationKey;
+
+        adapter.restoreHistory(requestPayload, adapterState);
+        adapter.prepareStructuredOutput(requestPayload, adapterState);
+        if (!context.structuredOutput && hasGroundingTools(requestPayload)) {
+          // A source list appended to structured JSON output would break it
+          context.grounding = createGroundingState();
+        }
+        const imageOutputDir = resolveImageOutputDir();
+        if (imageOutputDir) {
+          context.imageOutputDir = imageOutputDir;
+        }
 
-        const finalThinkingConfig = resolveThinkingConfig(
+        const normalizedThinking = adapter.resolveThinking(
+          requestPayload,
           userThinkingConfig,
-          isThinkingCapableModel(upstreamModel),
-          isClaudeModel,
-          hasAssistantHistory,
+          resolveEffortBudget(upstreamModel, defaultEffort),
+          adapterState,
         );
-
-        const normalizedThinking = normalizeThinkingConfig(finalThinkingConfig);
         if (normalizedThinking) {
+          const thinkingSource = userThinkingConfig?.source ?? `default effort ${defaultEffort}`;
+          context.thinkingSource = `${thinkingSource} -> thinkingBudget ${normalizedThinking.thinkingBudget ?? 0}`;
           if (rawGenerationConfig) {
             rawGenerationConfig.thinkingConfig = normalizedThinking;
             requestPayload.generationConfig = rawGenerationConfig;
@@ -206,18 +408,39 @@ export function prepareAntigravityRequest(
           delete rawGenerationConfig.thinkingConfig;
           requestPayload.generationConfig = rawGenerationConfig;
         }
+        // GPT-OSS adapters report dropped budgets themselves
+        if (userThinkingConfig && context.family !== "gpt-oss" && lacksThinkingSupport(upstreamModel)) {
+          context.adjustments.push(`${userThinkingConfig.source} ignored (${upstreamModel} does not support thinking)`);
+        }
 
         // Clean up thinking fields from extra_body
         if (extraBody) {
           delete extraBody.thinkingConfig;
           delete extraBody.thinking;
+          delete extraBody.reasoning_effort;
+          delete extraBody.reasoningEffort;
         }
         delete requestPayload.thinkingConfig;
         delete requestPayload.thinking;
-
-        if ("system_instruction" in requestPayload) {
-          requestPayload.systemInstruction = requestPayload.system_instruction;
-          delete requestPayload.system_instruction;
+        delete requestPayload.reasoning_effort;
+        delete requestPayload.reasoningEffort;
+
+        // Clamp or drop generation settings the model would reject
+        if (requestPayload.generationConfig && typeof requestPayload.generationConfig === "object") {
+          context.adjustments.push(
+            ...constrainGenerationConfig(requestPayload.generationConfig as Record<string, unknown>, upstreamModel),
+          );
+          const candidateCount = resolveCandidateEmulation(
+            requestPayload.generationConfig as Record<string, unknown>,
+            upstreamModel,
+            streaming,
+            context.adjustments,
+          );
+          if (candidateCount) {
+            context.candidateCount = candidateCount;
+            // Signatures from one of several samples must not be replayed into the conversation
+            context.thinking = undefined;
+          }
         }
 
         const cachedContentFromExtra =
@@ -243,193 +466,8 @@ export function prepareAntigravityRequest(
           }
         }
 
-        // Normalize tools. For Claude models, keep full function declarations (names + schemas).
+        adapter.normalizeTools(requestPayload, adapterState);
         if (Array.isArray(requestPayload.tools)) {
-          if (isClaudeModel) {
-            const functionDeclarations: any[] = [];
-            const passthroughTools: any[] = [];
-
-            // Sanitize schema - remove features not supported by JSON Schema draft 2020-12
-            // Recursively strips anyOf/allOf/oneOf and converts to permissive types
-            const sanitizeSchema = (schema: any): any => {
-              if (!schema || typeof schema !== "object") {
-                return schema;
-              }
-
-              const sanitized: any = {};
-
-              for (const key of Object.keys(schema)) {
-                // Skip anyOf/allOf/oneOf - not well supported
-                if (key === "anyOf" || key === "allOf" || key === "oneOf") {
-                  continue;
-                }
-
-                const value = schema[key];
-
-                if (key === "items" && value && typeof value === "object") {
-                  // Handle array items - if it has anyOf, replace with permissive type
-                  if (value.anyOf || value.allOf || value.oneOf) {
-                    sanitized.items = {};
-                  } else {
-                    sanitized.items = sanitizeSchema(value);
-                  }
-                } else if (key === "properties" && value && typeof value === "object") {
-                  // Recursively sanitize properties
-                  sanitized.properties = {};
-                  for (const propKey of Object.keys(value)) {
-                    sanitized.properties[propKey] = sanitizeSchema(value[propKey]);
-                  }
-                } else if (key === "additionalProperties" && value && typeof value === "object") {
-                  sanitized.additionalProperties = sanitizeSchema(value);
-                } else {
-                  sanitized[key] = value;
-                }
-              }
-
-              return sanitized;
-            };
-
-            const normalizeSchema = (schema: any) => {
-              if (!schema || typeof schema !== "object") {
-                toolDebugMissing += 1;
-                // Minimal fallback for tools without schemas
-                return { type: "object" };
-              }
-
-              // Sanitize and pass through
-              return sanitizeSchema(schema);
-            };
-
-            requestPayload.tools.forEach((tool: any, idx: number) => {
-              const pushDeclaration = (decl: any, source: string) => {
-                const schema =
-                  decl?.parameters ||
-                  decl?.input_schema ||
-                  decl?.inputSchema ||
-                  tool.parameters ||
-                  tool.input_schema ||
-                  tool.inputSchema ||
-                  tool.function?.parameters ||
-                  tool.function?.input_schema ||
-                  tool.function?.inputSchema ||
-                  tool.custom?.parameters ||
-                  tool.custom?.input_schema;
-
-                let name =
-                  decl?.name ||
-                  tool.name ||
-                  tool.function?.name ||
-                  tool.custom?.name ||
-                  `tool-${functionDeclarations.length}`;
-
-                // Sanitize tool name: must be alphanumeric with underscores, no special chars
-                name = String(name).replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
-
-                const description =
-                  decl?.description ||
-                  tool.description ||
-                  tool.function?.description ||
-                  tool.custom?.description ||
-                  "";
-
-                functionDeclarations.push({
-                  name,
-                  description: String(description || ""),
-                  parameters: normalizeSchema(schema),
-                });
-
-                toolDebugSummaries.push(
-                  `decl=${name},src=${source},hasSchema=${schema ? "y" : "n"}`,
-                );
-              };
-
-              if (Array.isArray(tool.functionDeclarations) && tool.functionDeclarations.length > 0) {
-                tool.functionDeclarations.forEach((decl: any) => pushDeclaration(decl, "functionDeclarations"));
-                return;
-              }
-
-              // Fall back to function/custom style definitions.
-              if (
-                tool.function ||
-                tool.custom ||
-                tool.parameters ||
-                tool.input_schema ||
-                tool.inputSchema
-              ) {
-                pushDeclaration(tool.function ?? tool.custom ?? tool, "function/custom");
-                return;
-              }
-
-              // Preserve any non-function tool entries (e.g., codeExecution) untouched.
-              passthroughTools.push(tool);
-            });
-
-            const finalTools: any[] = [];
-            if (functionDeclarations.length > 0) {
-              finalTools.push({ functionDeclarations });
-            }
-            requestPayload.tools = finalTools.concat(passthroughTools);
-          } else {
-            // Default normalization for non-Claude models
-            requestPayload.tools = requestPayload.tools.map((tool: any, toolIndex: number) => {
-              const newTool = { ...tool };
-
-              const schemaCandidates = [
-                newTool.function?.input_schema,
-                newTool.function?.parameters,
-                newTool.function?.inputSchema,
-                newTool.custom?.input_schema,
-                newTool.custom?.parameters,
-                newTool.parameters,
-                newTool.input_schema,
-                newTool.inputSchema,
-              ].filter(Boolean);
-              const schema = schemaCandidates[0];
-
-              const nameCandidate =
-                newTool.name ||
-                newTool.function?.name ||
-                newTool.custom?.name ||
-                `tool-${toolIndex}`;
-
-              if (newTool.function && !newTool.function.input_schema && schema) {
-                newTool.function.input_schema = schema;
-              }
-              if (newTool.custom && !newTool.custom.input_schema && schema) {
-                newTool.custom.input_schema = schema;
-              }
-              if (!newTool.custom && newTool.function) {
-                newTool.custom = {
-                  name: newTool.function.name || nameCandidate,
-                  description: newTool.function.description,
-                  input_schema: schema ?? { type: "object", properties: {}, additionalProperties: false },
-                };
-              }
-              if (!newTool.custom && !newTool.function) {
-                newTool.custom = {
-                  name: nameCandidate,
-                  description: newTool.description,
-                  input_schema: schema ?? { type: "object", properties: {}, additionalProperties: false },
-                };
-              }
-              if (newTool.custom && !newTool.custom.input_schema) {
-                newTool.custom.input_schema = { type: "object", properties: {}, additionalProperties: false };
-                toolDebugMissing += 1;
-              }
-
-              toolDebugSummaries.push(
-                `idx=${toolIndex}, hasCustom=${!!newTool.custom}, customSchema=${!!newTool.custom?.input_schema}, hasFunction=${!!newTool.function}, functionSchema=${!!newTool.function?.input_schema}`,
-              );
-
-              // Strip custom wrappers for Gemini; only function-style is accepted.
-              if (newTool.custom) {
-                delete newTool.custom;
-              }
-
-              return newTool;
-            });
-          }
-
           try {
             toolDebugPayload = JSON.stringify(requestPayload.tools);
           } catch {
@@ -437,70 +475,34 @@ export function prepareAntigravityRequest(
           }
         }
 
-        // For Claude models, filter out unsigned thinking blocks (required by Claude API)
-        if (isClaudeModel && Array.isArray(requestPayload.contents)) {
-          requestPayload.contents = filterUnsignedThinkingBlocks(requestPayload.contents);
+        // Keep tool names in history consistent with the sanitized declarations.
+        if (Array.isArray(requestPayload.contents)) {
+          requestPayload.contents = adapter.finalizeContents(
+            applyToolNamesToContents(requestPayload.contents, context.toolNames),
+            adapterState,
+          );
         }
 
-        // For Claude models, ensure functionCall/tool use parts carry IDs (required by Anthropic).
-        // We use a two-pass approach: first collect all functionCalls and assign IDs,
-        // then match functionResponses to their corresponding calls using a FIFO queue per function name.
-        if (isClaudeModel && Array.isArray(requestPayload.contents)) {
-          let toolCallCounter = 0;
-          // Track pending call IDs per function name as a FIFO queue
-          const pendingCallIdsByName = new Map<string, string[]>();
-
-          // First pass: assign IDs to all functionCalls and collect them
-          requestPayload.contents = requestPayload.contents.map((content: any) => {
-            if (!content || !Array.isArray(content.parts)) {
-              return content;
-            }
-
-            const newParts = content.parts.map((part: any) => {
-              if (part && typeof part === "object" && part.functionCall) {
-                const call = { ...part.functionCall };
-                if (!call.id) {
-                  call.id = `tool-call-${++toolCallCounter}`;
-                }
-                const nameKey = typeof call.name === "string" ? call.name : `tool-${toolCallCounter}`;
-                // Push to the queue for this function name
-                const queue = pendingCallIdsByName.get(nameKey) || [];
-                queue.push(call.id);
-                pendingCallIdsByName.set(nameKey, queue);
-                return { ...part, functionCall: call };
-              }
-              return part;
-            });
-
-            return { ...content, parts: newParts };
-          });
-
-          // Second pass: match functionResponses to their corresponding calls (FIFO order)
-          requestPayload.contents = (requestPayload.contents as any[]).map((content: any) => {
-            if (!content || !Array.isArray(content.parts)) {
-              return content;
-            }
+        // Cut down single oversized tool results before checking the whole prompt
+        if (Array.isArray(requestPayload.contents)) {
+          requestPayload.contents = limitToolResults(
+            requestPayload.contents,
+            upstreamModel,
+            context.adjustments,
+            context.toolNames,
+          );
+        }
 
-            const newParts = content.parts.map((part: any) => {
-              if (part && typeof part === "object" && part.functionResponse) {
-                const resp = { ...part.functionResponse };
-                if (!resp.id && typeof resp.name === "string") {
-                  const queue = pendingCallIdsByName.get(resp.name);
-                  if (queue && queue.length > 0) {
-                    // Consume the first pending ID (FIFO order)
-                    resp.id = queue.shift();
-                    pendingCallIdsByName.set(resp.name, queue);
-                  }
-                }
-                return { ...part, functionResponse: resp };
-              }
-              return part;
-            });
-
-            return { ...content, parts: newParts };
-          });
+        // Compact or reject prompts that would overflow the model's context window
+        const contextWindow = enforceContextWindow(requestPayload, upstreamModel, context.toolNames);
+        context.adjustments.push(...contextWindow.adjustments);
+        if (contextWindow.error && !context.localError) {
+          context.localError = { code: 400, status: "CONTEXT_LENGTH_EXCEEDED", message: contextWindow.error };
         }
 
+        // Breakpoints go on the final prompt, after any compaction
+        adapter.applyPromptCache(requestPayload, adapterState);
+
         if ("model" in requestPayload) {
           delete requestPayload.model;
         }
@@ -508,20 +510,15 @@ export function prepareAntigravityRequest(
         const effectiveProjectId = projectId?.trim() || generateSyntheticProjectId();
         resolvedProjectId = effectiveProjectId;
 
-        const wrappedBody = {
+        context.sessionId = resolveSessionId(headers, conversationKey);
+        context.turn = countUserTurns(requestPayload.contents);
+        const wrappedBody: AntigravityWrappedBody = {
           project: effectiveProjectId,
           model: upstreamModel,
-          request: requestPayload,
-        };
-
-        // Add additional Antigravity fields
-        Object.assign(wrappedBody, {
           userAgent: "antigravity",
           requestId: "agent-" + crypto.randomUUID(),
-        });
-        if (wrappedBody.request && typeof wrappedBody.request === 'object') {
-          (wrappedBody.request as any).sessionId = "-" + Math.floor(Math.random() * 9000000000000000000).toString();
-        }
+          request: { ...requestPayload, sessionId: context.sessionId },
+        };
 
         body = JSON.stringify(wrappedBody);
       }
@@ -538,8 +535,8 @@ export function prepareAntigravityRequest(
   headers.set("X-Goog-Api-Client", ANTIGRAVITY_HEADERS["X-Goog-Api-Client"]);
   headers.set("Client-Metadata", ANTIGRAVITY_HEADERS["Client-Metadata"]);
   // Optional debug header to observe tool normalization on the backend if surfaced
-  if (toolDebugMissing > 0) {
-    headers.set("X-Opencode-Tools-Debug", String(toolDebugMissing));
+  if (toolDebug.missing > 0) {
+    headers.set("X-Opencode-Tools-Debug", String(toolDebug.missing));
   }
 
   return {
@@ -554,9 +551,81 @@ export function prepareAntigravityRequest(
     effectiveModel: upstreamModel,
     projectId: resolvedProjectId,
     endpoint: transformedUrl,
-    toolDebugMissing,
-    toolDebugSummary: toolDebugSummaries.slice(0, 20).join(" | "),
+    toolDebugMissing: toolDebug.missing,
+    toolDebugSummary: toolDebug.summaries.slice(0, 20).join(" | "),
     toolDebugPayload,
+    context,
+  };
+}
+
+/**
+ * Reports token usage in response headers when the response read from or wrote to the prompt
+ * cache. Counts left undefined (e.g. totals of a stream still in progress) are omitted.
+ */
+function applyUsageHeaders(headers: Headers, usage: AntigravityUsageMetadata): void {
+  if (usage.cachedContentTokenCount === undefined && usage.cacheCreationTokenCount === undefined) {
+    return;
+  }
+  if (usage.cachedContentTokenCount !== undefined) {
+    headers.set("x-antigravity-cached-content-token-count", String(usage.cachedContentTokenCount));
+  }
+  if (usage.cacheCreationTokenCount !== undefined) {
+    headers.set("x-antigravity-cache-creation-token-count", String(usage.cacheCreationTokenCount));
+  }
+  if (usage.totalTokenCount !== undefined) {
+    headers.set("x-antigravity-total-token-count", String(usage.totalTokenCount));
+  }
+  if (usage.promptTokenCount !== undefined) {
+    headers.set("x-antigravity-prompt-token-count", String(usage.promptTokenCount));
+  }
+  if (usage.candidatesTokenCount !== undefined) {
+    headers.set("x-antigravity-candidates-token-count", String(usage.candidatesTokenCount));
+  }
+}
+
+/**
+ * Reads an SSE body up to the end of its first event. Returns that event's text and a stream
+ * that replays the bytes read before forwarding the rest of the body.
+ */
+async function peekFirstEvent(body: ReadableStream<Uint8Array>): Promise<{ first: string; body: ReadableStream<Uint8Array> }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const read: Uint8Array[] = [];
+  let text = "";
+  let done = false;
+  while (!done && !text.includes("\n\n")) {
+    const result = await reader.read();
+    done = result.done;
+    if (result.value) {
+      read.push(result.value);
+      text += decoder.decode(result.value, { stream: true });
+    }
+  }
+
+  const end = text.indexOf("\n\n");
+  return {
+    first: end === -1 ? text : text.slice(0, end),
+    body: new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of read) {
+          controller.enqueue(chunk);
+        }
+        if (done) {
+          controller.close();
+        }
+      },
+      async pull(controller) {
+        const result = await reader.read();
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    }),
   };
 }
 
@@ -577,6 +646,7 @@ export async function transformAntigravityResponse(
   toolDebugMissing?: number,
   toolDebugSummary?: string,
   toolDebugPayload?: string,
+  context?: AntigravityRequestContext,
 ): Promise<Response> {
   const contentType = response.headers.get("content-type") ?? "";
   const isJsonResponse = contentType.includes("application/json");
@@ -593,9 +663,25 @@ export async function transformAntigravityResponse(
   // while maintaining real-time streaming (no buffering of entire response)
   if (streaming && response.ok && isEventStreamResponse && response.body) {
     const headers = new Headers(response.headers);
+    applyContextHeaders(headers, context);
+
+    // Cache reads and writes are known once the prompt is processed, so the first event
+    // carries them; the prompt's counts go into headers before the stream is forwarded.
+    const peeked = await peekFirstEvent(response.body);
+    const firstUsage = extractUsageFromSsePayload(peeked.first);
+    if (firstUsage) {
+      applyUsageHeaders(headers, {
+        promptTokenCount: firstUsage.promptTokenCount,
+        cachedContentTokenCount: firstUsage.cachedContentTokenCount,
+        cacheCreationTokenCount: firstUsage.cacheCreationTokenCount,
+      });
+    }
 
     // Buffer for partial SSE events that span chunks
     let buffer = "";
+    // Offset already searched for an event delimiter, so a multi-megabyte event (e.g. an
+    // inline image) arriving over many chunks is scanned once rather than on every chunk
+    let scanned = 0;
     const decoder = new TextDecoder();
     const encoder = new TextEncoder();
 
@@ -604,19 +690,22 @@ export async function transformAntigravityResponse(
         // Decode chunk with stream: true to handle multi-byte characters
         buffer += decoder.decode(chunk, { stream: true });
 
-        // Split on double newline (SSE event delimiter)
-        const events = buffer.split("\n\n");
-
-        // Keep last part in buffer (may be incomplete)
-        buffer = events.pop() || "";
-
-        // Process and forward complete events immediately
-        for (const event of events) {
+        // Process and forward complete events (double newline delimited) immediately
+        let start = 0;
+        let end = buffer.indexOf("\n\n", scanned);
+        while (end !== -1) {
+          const event = buffer.slice(start, end);
           if (event.trim()) {
-            const transformed = transformStreamingPayload(event);
+            const transformed = transformStreamingPayload(event, context);
             controller.enqueue(encoder.encode(transformed + "\n\n"));
           }
+          start = end + 2;
+          end = buffer.indexOf("\n\n", start);
         }
+
+        // Keep the incomplete tail; its last character may start the next delimiter
+        buffer = buffer.slice(start);
+        scanned = Math.max(0, buffer.length - 1);
       },
       flush(controller) {
         // Flush any remaining bytes from TextDecoder
@@ -624,9 +713,28 @@ export async function transformAntigravityResponse(
 
         // Handle any remaining data at stream end
         if (buffer.trim()) {
-          const transformed = transformStreamingPayload(buffer);
+          const transformed = transformStreamingPayload(buffer, context);
           controller.enqueue(encoder.encode(transformed));
         }
+
+        // Sources whose metadata arrived after the finishing chunk go out as a final event
+        const trailingSources = context?.grounding ? flushGroundingSources(context.grounding) : null;
+        if (trailingSources) {
+          const transformed = transformResponsePayload(trailingSources, context);
+          controller.enqueue(encoder.encode(`\n\ndata: ${JSON.stringify(transformed)}\n\n`));
+        }
+
+        if (context?.thinking) {
+          commitThinkingCapture(context.thinking);
+        }
+
+        if (context?.structuredOutput) {
+          const validationError = validateStructuredOutput(context.structuredOutput);
+          if (validationError) {
+            const errorEvent = JSON.stringify(createStructuredOutputError(validationError));
+            controller.enqueue(encoder.encode(`\n\ndata: ${errorEvent}\n\n`));
+          }
+        }
       }
     });
 
@@ -634,7 +742,7 @@ export async function transformAntigravityResponse(
       note: "Streaming SSE response (transformed)",
     });
 
-    return new Response(response.body.pipeThrough(transformStream), {
+    return new Response(peeked.body.pipeThrough(transformStream), {
       status: response.status,
       statusText: response.statusText,
       headers,
@@ -643,6 +751,7 @@ export async function transformAntigravityResponse(
 
   try {
     const headers = new Headers(response.headers);
+    applyContextHeaders(headers, context);
     const text = await response.text();
 
     if (!response.ok) {
@@ -655,7 +764,7 @@ export async function transformAntigravityResponse(
 
       // Inject Debug Info
       if (errorBody?.error) {
-        const debugInfo = `\n\n[Debug Info]\nRequested Model: ${requestedModel || "Unknown"}\nEffective Model: ${effectiveModel || "Unknown"}\nProject: ${projectId || "Unknown"}\nEndpoint: ${endpoint || "Unknown"}\nStatus: ${response.status}\nRequest ID: ${headers.get('x-request-id') || "N/A"}${toolDebugMissing !== undefined ? `\nTool Debug Missing: ${toolDebugMissing}` : ""}${toolDebugSummary ? `\nTool Debug Summary: ${toolDebugSummary}` : ""}${toolDebugPayload ? `\nTool Debug Payload: ${toolDebugPayload}` : ""}`;
+        const debugInfo = `\n\n[Debug Info]\nRequested Model: ${requestedModel || "Unknown"}\nEffective Model: ${effectiveModel || "Unknown"}\nProject: ${projectId || "Unknown"}${context?.sessionId ? `\nSession: ${context.sessionId}` : ""}\nEndpoint: ${endpoint || "Unknown"}\nStatus: ${response.status}\nRequest ID: ${headers.get('x-request-id') || "N/A"}${toolDebugMissing !== undefined ? `\nTool Debug Missing: ${toolDebugMissing}` : ""}${toolDebugSummary ? `\nTool Debug Summary: ${toolDebugSummary}` : ""}${toolDebugPayload ? `\nTool Debug Payload: ${toolDebugPayload}` : ""}`;
         errorBody.error.message = (errorBody.error.message || "Unknown error") + debugInfo;
 
         return new Response(JSON.stringify(errorBody), {
@@ -697,17 +806,8 @@ export async function transformAntigravityResponse(
     const effectiveBody = patched ?? parsed ?? undefined;
 
     const usage = usageFromSse ?? (effectiveBody ? extractUsageMetadata(effectiveBody) : null);
-    if (usage?.cachedContentTokenCount !== undefined) {
-      headers.set("x-antigravity-cached-content-token-count", String(usage.cachedContentTokenCount));
-      if (usage.totalTokenCount !== undefined) {
-        headers.set("x-antigravity-total-token-count", String(usage.totalTokenCount));
-      }
-      if (usage.promptTokenCount !== undefined) {
-        headers.set("x-antigravity-prompt-token-count", String(usage.promptTokenCount));
-      }
-      if (usage.candidatesTokenCount !== undefined) {
-        headers.set("x-antigravity-candidates-token-count", String(usage.candidatesTokenCount));
-      }
+    if (usage) {
+      applyUsageHeaders(headers, usage);
     }
 
     logAntigravityDebugResponse(debugContext, response, {
@@ -723,8 +823,28 @@ export async function transformAntigravityResponse(
       return new Response(text, init);
     }
 
+    if (context?.countTokens && response.ok) {
+      const counted = toPublicCountTokensResponse(parsed);
+      if (counted) {
+        return new Response(JSON.stringify(counted), init);
+      }
+    }
+
     if (effectiveBody?.response !== undefined) {
-      const transformed = transformThinkingParts(effectiveBody.response);
+      const transformed = transformResponsePayload(effectiveBody.response, context);
+      if (context?.thinking && response.ok) {
+        commitThinkingCapture(context.thinking);
+      }
+      if (context?.structuredOutput && response.ok) {
+        const validationError = validateStructuredOutput(context.structuredOutput);
+        if (validationError) {
+          return new Response(JSON.stringify(createStructuredOutputError(validationError)), {
+            ...init,
+            status: 502,
+            statusText: "Bad Gateway",
+          });
+        }
+      }
       return new Response(JSON.stringify(transformed), init);
     }
 
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+
+import { translateToolSchema } from "./schema";
+
+describe("translateToolSchema", () => {
+  it("inlines $ref definitions and drops unsupported keywords", () => {
+    const result = translateToolSchema(
+      {
+        $schema: "http://json-schema.org/draft-07/schema#",
+        type: "object",
+        properties: {
+          path: { $ref: "#/$defs/FilePath" },
+        },
+        required: ["path"],
+        $defs: {
+          FilePath: { type: "string", format: "uri", pattern: "^/", default: "/" },
+        },
+      },
+      "gemini",
+    );
+
+    expect(result).toEqual({
+      type: "object",
+      properties: {
+        path: { type: "string" },
+      },
+      required: ["path"],
+    });
+  });
+
+  it("merges allOf branches and unions their required lists", () => {
+    const result = translateToolSchema(
+      {
+        allOf: [
+          { type: "object", properties: { a: { type: "string" } }, required: ["a"] },
+          { properties: { b: { type: "number" } }, required: ["b"] },
+        ],
+      },
+      "claude",
+    );
+
+    expect(result).toEqual({
+      type: "object",
+      properties: {
+        a: { type: "string" },
+        b: { type: "number" },
+      },
+      required: ["a", "b"],
+    });
+  });
+
+  it("turns nullable unions and type arrays into nullable", () => {
+    const result = translateToolSchema(
+      {
+        type: "object",
+        properties: {
+          limit: { anyOf: [{ type: "integer" }, { type: "null" }] },
+          cursor: { type: ["string", "null"] },
+        },
+      },
+      "gemini",
+    );
+
+    expect(result.properties).toEqual({
+      limit: { type: "integer", nullable: true },
+      cursor: { type: "string", nullable: true },
+    });
+  });
+
+  it("folds const and const unions into enum", () => {
+    const result = translateToolSchema(
+      {
+        type: "object",
+        properties: {
+          kind: { const: "file" },
+          mode: { oneOf: [{ const: "read" }, { const: "write" }] },
+        },
+      },
+      "gemini",
+    );
+
+    expect(result.properties).toEqual({
+      kind: { type: "string", enum: ["file"] },
+      mode: { type: "string", enum: ["read", "write"] },
+    });
+  });
+
+  it("keeps array item typing instead of replacing it with an empty schema", () => {
+    const result = translateToolSchema(
+      {
+        type: "object",
+        properties: {
+          edits: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { line: { type: "integer" } },
+              additionalProperties: false,
+            },
+          },
+        },
+      },
+      "claude",
+    );
+
+    expect(result.properties).toEqual({
+      edits: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { line: { type: "integer" } },
+          additionalProperties: false,
+        },
+      },
+    });
+  });
+
+  it("stops expanding recursive references", () => {
+    const result = translateToolSchema(
+      {
+        type: "object",
+        properties: { node: { $ref: "#/definitions/Node" } },
+        definitions: {
+          Node: {
+            type: "object",
+            properties: { child: { $ref: "#/definitions/Node" } },
+          },
+        },
+      },
+      "gemini",
+    );
+
+    expect(result.properties).toEqual({
+      node: {
+        type: "object",
+        properties: { child: { type: "object" } },
+      },
+    });
+  });
+
+  it("stops at cycles reached through allOf refs", () => {
+    const result = translateToolSchema(
+      {
+        allOf: [{ $ref: "#/$defs/B" }],
+        $defs: {
+          B: { allOf: [{ $ref: "#/$defs/C" }] },
+          C: { allOf: [{ $ref: "#/$defs/B" }] },
+        },
+      },
+      "gemini",
+    );
+
+    expect(result).toEqual({ type: "object", properties: {} });
+  });
+});
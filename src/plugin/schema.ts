@@ -0,0 +1,390 @@
+/**
+ * Target model family for tool schema translation. Antigravity accepts Gemini-style
+ * `parameters` for every model, but the Claude backend tolerates a slightly different
+ * keyword set than Gemini does.
+ */
+export type SchemaTargetFamily = "gemini" | "claude";
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Keywords each family accepts after translation. Everything else (format, pattern,
+ * default, examples, $schema, ...) is stripped.
+ */
+const SUPPORTED_KEYWORDS: Record<SchemaTargetFamily, ReadonlySet<string>> = {
+  gemini: new Set([
+    "type",
+    "title",
+    "description",
+    "nullable",
+    "enum",
+    "properties",
+    "required",
+    "items",
+    "minItems",
+    "maxItems",
+    "minimum",
+    "maximum",
+    "anyOf",
+    "propertyOrdering",
+  ]),
+  claude: new Set([
+    "type",
+    "title",
+    "description",
+    "nullable",
+    "enum",
+    "properties",
+    "required",
+    "items",
+    "minItems",
+    "maxItems",
+    "minimum",
+    "maximum",
+    "anyOf",
+    "additionalProperties",
+  ]),
+};
+
+const COMPOSITION_KEYWORDS = new Set(["allOf", "anyOf", "oneOf"]);
+
+/**
+ * Maximum depth for `$ref` expansion; recursive definitions collapse to a plain object past it.
+ */
+const MAX_REF_DEPTH = 8;
+
+interface TranslationContext {
+  family: SchemaTargetFamily;
+  definitions: Record<string, unknown>;
+  refStack: string[];
+}
+
+/**
+ * Translates an arbitrary JSON Schema (as produced by MCP servers and tool SDKs) into the
+ * subset Antigravity accepts for function declarations. Local `$ref`s are inlined, `allOf`
+ * is merged, nullable unions become `nullable: true`, `const` folds into `enum`, and
+ * unsupported keywords are dropped for the given model family.
+ */
+export function translateToolSchema(schema: unknown, family: SchemaTargetFamily): JsonSchema {
+  if (!isSchemaObject(schema)) {
+    return { type: "object", properties: {} };
+  }
+
+  const context: TranslationContext = {
+    family,
+    definitions: collectDefinitions(schema),
+    refStack: [],
+  };
+
+  const translated = translateNode(schema, context);
+  if (translated.type === undefined) {
+    translated.type = "object";
+  }
+  if (translated.type === "object" && !isSchemaObject(translated.properties)) {
+    translated.properties = {};
+  }
+  return translated;
+}
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Gathers `$defs` and `definitions` from the root schema so refs can be resolved by pointer.
+ */
+function collectDefinitions(root: JsonSchema): Record<string, unknown> {
+  const definitions: Record<string, unknown> = {};
+  for (const key of ["definitions", "$defs"] as const) {
+    const group = root[key];
+    if (!isSchemaObject(group)) {
+      continue;
+    }
+    for (const [name, definition] of Object.entries(group)) {
+      definitions[`#/${key}/${name}`] = definition;
+    }
+  }
+  definitions["#"] = root;
+  return definitions;
+}
+
+/**
+ * Resolves a local `$ref`, returning a permissive object schema when it cannot be followed.
+ */
+function resolveRef(node: JsonSchema, context: TranslationContext): JsonSchema {
+  const ref = node.$ref as string;
+  const { $ref: _ref, ...siblings } = node;
+  const target = context.definitions[ref];
+
+  if (!isSchemaObject(target) || context.refStack.includes(ref)) {
+    return { type: "object", ...siblings };
+  }
+
+  const { definitions: _defs, $defs: _dollarDefs, ...resolved } = target;
+  return { ...resolved, ...siblings };
+}
+
+/**
+ * Expands a `$ref` at the current node (following chained refs) and passes the result to
+ * `visit` while the ref is on the stack, so helpers that expand refs eagerly (allOf, unions)
+ * stop at cycles the same way `translateNode` does. A cyclic or too-deep ref becomes a
+ * permissive object schema. Nested nodes are expanded when they are visited.
+ */
+function followRef(node: JsonSchema, context: TranslationContext, visit: (node: JsonSchema) => JsonSchema): JsonSchema {
+  if (typeof node.$ref !== "string") {
+    return visit(node);
+  }
+  const ref = node.$ref;
+  if (context.refStack.includes(ref) || context.refStack.length >= MAX_REF_DEPTH) {
+    const { $ref: _ref, ...siblings } = node;
+    return { type: "object", ...siblings };
+  }
+  const resolved = resolveRef(node, context);
+  context.refStack.push(ref);
+  try {
+    return followRef(resolved, context, visit);
+  } finally {
+    context.refStack.pop();
+  }
+}
+
+/**
+ * Merges `allOf` branches into a single schema: properties are combined, required lists are
+ * unioned, and the remaining keywords take the first defined value.
+ */
+function mergeAllOf(node: JsonSchema, context: TranslationContext): JsonSchema {
+  const { allOf, ...rest } = node;
+  if (!Array.isArray(allOf)) {
+    return node;
+  }
+
+  let merged: JsonSchema = { ...rest };
+  for (const branch of allOf) {
+    if (!isSchemaObject(branch)) {
+      continue;
+    }
+    const expanded = followRef(branch, context, (resolved) => mergeAllOf(resolved, context));
+    merged = mergeSchemas(merged, expanded);
+  }
+  return merged;
+}
+
+function mergeSchemas(base: JsonSchema, addition: JsonSchema): JsonSchema {
+  const merged: JsonSchema = { ...base };
+  for (const [key, value] of Object.entries(addition)) {
+    if (key === "properties" && isSchemaObject(value)) {
+      merged.properties = {
+        ...(isSchemaObject(merged.properties) ? merged.properties : {}),
+        ...value,
+      };
+    } else if (key === "required" && Array.isArray(value)) {
+      const existing = Array.isArray(merged.required) ? merged.required : [];
+      merged.required = Array.from(new Set([...existing, ...value]));
+    } else if (merged[key] === undefined) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Normalizes `anyOf`/`oneOf` unions. Null branches become `nullable: true`; a single remaining
+ * branch is inlined; unions of plain enums collapse into one enum; anything else stays `anyOf`.
+ */
+function normalizeUnion(node: JsonSchema, context: TranslationContext): JsonSchema {
+  const unionKey = Array.isArray(node.anyOf) ? "anyOf" : Array.isArray(node.oneOf) ? "oneOf" : undefined;
+  if (!unionKey) {
+    return node;
+  }
+
+  const { anyOf: _anyOf, oneOf: _oneOf, ...rest } = node;
+  const branches = (node[unionKey] as unknown[])
+    .filter(isSchemaObject)
+    .map((branch) => followRef(branch, context, (resolved) => mergeAllOf(resolved, context)));
+
+  const nonNull = branches.filter((branch) => branch.type !== "null");
+  const nullable = nonNull.length < branches.length;
+  const result: JsonSchema = { ...rest };
+  if (nullable) {
+    result.nullable = true;
+  }
+
+  if (nonNull.length === 0) {
+    return result;
+  }
+
+  if (nonNull.length === 1) {
+    return mergeSchemas(result, nonNull[0]!);
+  }
+
+  const enumValues = collectUnionEnum(nonNull);
+  if (enumValues) {
+    return mergeSchemas(result, enumValues);
+  }
+
+  result.anyOf = nonNull;
+  return result;
+}
+
+/**
+ * Collapses unions such as `{ const: "a" } | { const: "b" }` into a single enum schema.
+ */
+function collectUnionEnum(branches: JsonSchema[]): JsonSchema | null {
+  const values: unknown[] = [];
+  let type: unknown;
+  for (const branch of branches) {
+    const branchValues = branch.const !== undefined ? [branch.const] : branch.enum;
+    if (!Array.isArray(branchValues)) {
+      return null;
+    }
+    const branchType = branch.type ?? inferPrimitiveType(branchValues[0]);
+    if (type !== undefined && branchType !== type) {
+      return null;
+    }
+    type = branchType;
+    values.push(...branchValues);
+  }
+  return { type, enum: Array.from(new Set(values)) };
+}
+
+function inferPrimitiveType(value: unknown): string | undefined {
+  if (typeof value === "string") return "string";
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return undefined;
+}
+
+/**
+ * Translates one schema node after refs, allOf and unions have been flattened.
+ */
+function translateNode(input: JsonSchema, context: TranslationContext): JsonSchema {
+  // Keep the ref on the stack while its subtree is translated so recursion is detected.
+  if (typeof input.$ref === "string" && isSchemaObject(context.definitions[input.$ref])) {
+    const ref = input.$ref;
+    if (context.refStack.includes(ref) || context.refStack.length >= MAX_REF_DEPTH) {
+      const { $ref: _ref, ...siblings } = input;
+      return translateNode({ type: "object", ...siblings }, context);
+    }
+    const resolved = resolveRef(input, context);
+    context.refStack.push(ref);
+    try {
+      return translateNode(resolved, context);
+    } finally {
+      context.refStack.pop();
+    }
+  }
+
+  let node = mergeAllOf(input, context);
+  node = normalizeUnion(node, context);
+  // Unions may inline a branch that itself uses allOf/$ref.
+  node = followRef(node, context, (resolved) => mergeAllOf(resolved, context));
+
+  const supported = SUPPORTED_KEYWORDS[context.family];
+  const result: JsonSchema = {};
+
+  // JSON Schema type arrays: ["string", "null"] → type: "string", nullable: true.
+  let type = node.type;
+  if (Array.isArray(type)) {
+    const types = type.filter((entry) => entry !== "null");
+    if (types.length < type.length) {
+      result.nullable = true;
+    }
+    type = types.length === 1 ? types[0] : undefined;
+    if (types.length > 1) {
+      result.anyOf = types.map((entry) => ({ type: entry }));
+    }
+  }
+
+  let enumValues = Array.isArray(node.enum) ? node.enum : undefined;
+  if (node.const !== undefined && !enumValues) {
+    enumValues = [node.const];
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "type" || key === "enum" || key === "const" || COMPOSITION_KEYWORDS.has(key)) {
+      continue;
+    }
+    if (!supported.has(key)) {
+      continue;
+    }
+
+    if (key === "properties" && isSchemaObject(value)) {
+      const properties: JsonSchema = {};
+      for (const [propName, propSchema] of Object.entries(value)) {
+        properties[propName] = isSchemaObject(propSchema) ? translateNode(propSchema, context) : {};
+      }
+      result.properties = properties;
+    } else if (key === "items") {
+      if (isSchemaObject(value)) {
+        result.items = translateNode(value, context);
+      } else if (Array.isArray(value) && isSchemaObject(value[0])) {
+        // Tuple validation is unsupported; fall back to the first item's schema.
+        result.items = translateNode(value[0], context);
+      }
+    } else if (key === "additionalProperties") {
+      if (typeof value === "boolean") {
+        result.additionalProperties = value;
+      } else if (isSchemaObject(value)) {
+        result.additionalProperties = translateNode(value, context);
+      }
+    } else if (key === "nullable") {
+      if (value === true) {
+        result.nullable = true;
+      }
+    } else {
+      result[key] = value;
+    }
+  }
+
+  if (Array.isArray(node.anyOf) && supported.has("anyOf")) {
+    result.anyOf = node.anyOf
+      .filter(isSchemaObject)
+      .map((branch) => translateNode(branch, context));
+  }
+
+  if (enumValues) {
+    const values = context.family === "gemini"
+      ? enumValues.filter((value) => typeof value === "string")
+      : enumValues;
+    if (values.length > 0) {
+      result.enum = values;
+      type ??= inferPrimitiveType(values[0]);
+    }
+  }
+
+  if (typeof type === "string") {
+    result.type = type;
+  } else if (result.anyOf === undefined) {
+    const inferred = inferNodeType(result);
+    if (inferred) {
+      result.type = inferred;
+    }
+  }
+
+  if (Array.isArray(result.required) && isSchemaObject(result.properties)) {
+    const properties = result.properties;
+    const required = result.required.filter(
+      (name): name is string => typeof name === "string" && name in properties,
+    );
+    if (required.length > 0) {
+      result.required = required;
+    } else {
+      delete result.required;
+    }
+  } else {
+    delete result.required;
+  }
+
+  if (result.type === "array" && result.items === undefined) {
+    result.items = { type: "string" };
+  }
+
+  return result;
+}
+
+function inferNodeType(node: JsonSchema): string | undefined {
+  if (node.properties !== undefined) return "object";
+  if (node.items !== undefined) return "array";
+  if (Array.isArray(node.enum)) return inferPrimitiveType(node.enum[0]);
+  return undefined;
+}
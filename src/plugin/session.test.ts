@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { countUserTurns, readCallerSessionId, resolveSessionId } from "./session";
+
+describe("resolveSessionId", () => {
+  it("uses a caller-supplied session header and strips session headers before forwarding", () => {
+    const headers = new Headers({
+      "x-antigravity-session-id": " pinned-session ",
+      "x-session-id": "other-session",
+      authorization: "Bearer token",
+    });
+
+    expect(readCallerSessionId(headers)).toBe("pinned-session");
+    expect(resolveSessionId(headers, "conversation-key")).toBe("pinned-session");
+    expect(headers.has("x-antigravity-session-id")).toBe(false);
+    expect(headers.has("x-session-id")).toBe(false);
+    expect(headers.get("authorization")).toBe("Bearer token");
+  });
+
+  it("falls back to the generic session header", () => {
+    expect(resolveSessionId(new Headers({ "x-session-id": "generic" }), "conversation-key")).toBe("generic");
+  });
+
+  it("derives a stable negative decimal ID from the conversation key", () => {
+    const first = resolveSessionId(new Headers(), "conversation-key");
+
+    expect(first).toMatch(/^-\d+$/);
+    expect(resolveSessionId(new Headers(), "conversation-key")).toBe(first);
+    expect(resolveSessionId(new Headers(), "another-key")).not.toBe(first);
+  });
+
+  it("uses a random ID without a header or conversation key", () => {
+    const first = resolveSessionId(new Headers());
+
+    expect(first).toMatch(/^-\d+$/);
+    expect(resolveSessionId(new Headers())).not.toBe(first);
+  });
+});
+
+describe("countUserTurns", () => {
+  it("counts user turns, treating a missing role as user", () => {
+    expect(countUserTurns([{ role: "user" }, { role: "model" }, {}, { role: "user" }])).toBe(3);
+    expect(countUserTurns(undefined)).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+import crypto from "node:crypto";
+
+/**
+ * Request headers a caller can use to pin the session ID explicitly.
+ */
+export const SESSION_ID_HEADERS = ["x-antigravity-session-id", "x-session-id"] as const;
+
+/**
+ * Response header exposing the session ID used for a request.
+ */
+export const SESSION_ID_RESPONSE_HEADER = "x-antigravity-session-id";
+
+/**
+ * Formats a conversation key into the negative decimal form Antigravity uses for session IDs.
+ */
+function sessionIdFromKey(conversationKey: string): string {
+  const hash = crypto.createHash("sha256").update(conversationKey).digest("hex");
+  return `-${BigInt(`0x${hash.slice(0, 15)}`).toString()}`;
+}
+
+function randomSessionId(): string {
+  return "-" + Math.floor(Math.random() * 9000000000000000000).toString();
+}
+
+/**
+ * Returns the session ID the caller pinned through a session header, if any.
+ */
+export function readCallerSessionId(headers: Headers): string | undefined {
+  for (const name of SESSION_ID_HEADERS) {
+    const value = headers.get(name)?.trim();
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the stable session ID for a conversation. A caller-supplied session header wins;
+ * otherwise the ID is derived from the conversation key, so every turn (and plugin restarts)
+ * reuse it. Requests with neither fall back to a one-off random ID.
+ * Session headers are removed from `headers` so they are not forwarded upstream.
+ */
+export function resolveSessionId(headers: Headers, conversationKey?: string): string {
+  const explicit = readCallerSessionId(headers);
+  for (const name of SESSION_ID_HEADERS) {
+    headers.delete(name);
+  }
+
+  if (explicit) {
+    return explicit;
+  }
+  return conversationKey ? sessionIdFromKey(conversationKey) : randomSessionId();
+}
+
+/**
+ * Counts user turns in the contents, used to correlate requests within a session in logs.
+ */
+export function countUserTurns(contents: unknown): number {
+  if (!Array.isArray(contents)) {
+    return 0;
+  }
+  return contents.filter((content: any) => content?.role === "user" || content?.role === undefined).length;
+}
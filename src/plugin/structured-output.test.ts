@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  collectStructuredOutput,
+  prepareStructuredOutput,
+  STRUCTURED_OUTPUT_TOOL_NAME,
+  validateStructuredOutput,
+} from "./structured-output";
+import { applyClaudeToolConfig } from "./tool-config";
+
+const schema = {
+  type: "object",
+  properties: { answer: { type: "string" }, score: { type: "integer" } },
+  required: ["answer"],
+};
+
+function jsonRequest(extra: Record<string, unknown> = {}): Record<string, any> {
+  return { generationConfig: { responseMimeType: "application/json", responseSchema: schema }, ...extra };
+}
+
+function modelResponse(parts: unknown[]) {
+  return { candidates: [{ content: { role: "model", parts }, finishReason: "STOP" }] };
+}
+
+describe("prepareStructuredOutput", () => {
+  it("passes the schema through natively for Gemini", () => {
+    const payload = jsonRequest();
+    const state = prepareStructuredOutput(payload, false);
+
+    expect(state?.emulated).toBe(false);
+    expect(payload.generationConfig.responseMimeType).toBe("application/json");
+    expect(payload.generationConfig.responseSchema).toMatchObject({ type: "object", required: ["answer"] });
+    expect(payload.tools).toBeUndefined();
+    expect(payload.toolConfig).toBeUndefined();
+  });
+
+  it("injects and forces a synthetic tool for Claude without caller tools", () => {
+    const payload = jsonRequest();
+    const state = prepareStructuredOutput(payload, true);
+
+    expect(state).toMatchObject({ emulated: true, wrapped: false });
+    expect(payload.generationConfig).toEqual({});
+    expect(payload.tools).toEqual([
+      { functionDeclarations: [expect.objectContaining({ name: STRUCTURED_OUTPUT_TOOL_NAME, parameters: schema })] },
+    ]);
+    expect(payload.toolConfig).toEqual({
+      functionCallingConfig: { mode: "ANY", allowedFunctionNames: [STRUCTURED_OUTPUT_TOOL_NAME] },
+    });
+  });
+
+  it("keeps the caller's tools and tool choice for Claude", () => {
+    const callerTools = [{ functionDeclarations: [{ name: "search", parameters: { type: "object" } }] }];
+    const toolConfig = { functionCallingConfig: { mode: "AUTO" } };
+    const payload = jsonRequest({ tools: callerTools, toolConfig });
+    prepareStructuredOutput(payload, true);
+
+    expect(payload.tools).toHaveLength(2);
+    expect(payload.tools[0]).toBe(callerTools[0]);
+    expect(payload.tools[1].functionDeclarations[0].name).toBe(STRUCTURED_OUTPUT_TOOL_NAME);
+    expect(payload.toolConfig).toBe(toolConfig);
+  });
+
+  it("keeps the synthetic tool allowed when the caller restricts forced tool use", () => {
+    const callerTools = [{ functionDeclarations: [{ name: "search", parameters: { type: "object" } }, { name: "read" }] }];
+    const payload = jsonRequest({
+      tools: callerTools,
+      toolConfig: { functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["search"] } },
+    });
+    prepareStructuredOutput(payload, true);
+    applyClaudeToolConfig(payload, { toUpstream: new Map(), toOriginal: new Map() });
+
+    const declared = payload.tools.flatMap((tool: any) => tool.functionDeclarations.map((decl: any) => decl.name));
+    expect(declared).toEqual(["search", STRUCTURED_OUTPUT_TOOL_NAME]);
+    expect(payload.toolConfig.functionCallingConfig).toEqual({
+      mode: "ANY",
+      allowedFunctionNames: ["search", STRUCTURED_OUTPUT_TOOL_NAME],
+    });
+  });
+
+  it("wraps non-object schemas in a value property", () => {
+    const payload = { generationConfig: { responseMimeType: "application/json", responseSchema: { type: "array", items: { type: "string" } } } };
+    const state = prepareStructuredOutput(payload, true)!;
+
+    expect(state.wrapped).toBe(true);
+    const response = collectStructuredOutput(
+      modelResponse([{ functionCall: { name: STRUCTURED_OUTPUT_TOOL_NAME, args: { value: ["a", "b"] } } }]),
+      state,
+    ) as any;
+    expect(response.candidates[0].content.parts).toEqual([{ text: "[\"a\",\"b\"]" }]);
+    expect(validateStructuredOutput(state)).toBeNull();
+  });
+});
+
+describe("collectStructuredOutput and validateStructuredOutput", () => {
+  it("unwraps the synthetic tool call into text for Claude", () => {
+    const state = prepareStructuredOutput(jsonRequest(), true)!;
+    const response = collectStructuredOutput(
+      modelResponse([{ functionCall: { name: STRUCTURED_OUTPUT_TOOL_NAME, args: { answer: "42", score: 3 } } }]),
+      state,
+    ) as any;
+
+    expect(response.candidates[0].content.parts).toEqual([{ text: "{\"answer\":\"42\",\"score\":3}" }]);
+    expect(validateStructuredOutput(state)).toBeNull();
+  });
+
+  it("validates a JSON text answer when the synthetic tool is not forced", () => {
+    const tools = [{ functionDeclarations: [{ name: "search", parameters: { type: "object" } }] }];
+    const state = prepareStructuredOutput(jsonRequest({ tools, toolConfig: { functionCallingConfig: { mode: "AUTO" } } }), true)!;
+    const response = collectStructuredOutput(modelResponse([{ text: "{\"answer\":\"42\"}" }]), state) as any;
+
+    expect(response.candidates[0].content.parts).toEqual([{ text: "{\"answer\":\"42\"}" }]);
+    expect(validateStructuredOutput(state)).toBeNull();
+
+    const prose = prepareStructuredOutput(jsonRequest({ tools }), true)!;
+    collectStructuredOutput(modelResponse([{ text: "The answer is 42." }]), prose);
+    expect(validateStructuredOutput(prose)).toBe("Model output is not valid JSON.");
+  });
+
+  it("reports output that does not match the schema", () => {
+    const state = prepareStructuredOutput(jsonRequest(), false)!;
+    collectStructuredOutput(modelResponse([{ text: "{\"score\":1.5}" }]), state);
+
+    expect(validateStructuredOutput(state)).toBe(
+      "Model output does not match the response schema: $.answer is required; $.score should be integer, got number",
+    );
+  });
+
+  it("reports missing and non-JSON output", () => {
+    const empty = prepareStructuredOutput(jsonRequest(), false)!;
+    collectStructuredOutput(modelResponse([{ text: "thinking", thought: true }]), empty);
+    expect(validateStructuredOutput(empty)).toBe("Model returned no structured output.");
+
+    const prose = prepareStructuredOutput(jsonRequest(), false)!;
+    collectStructuredOutput(modelResponse([{ text: "The answer is 42." }]), prose);
+    expect(validateStructuredOutput(prose)).toBe("Model output is not valid JSON.");
+  });
+
+  it("skips validation when the turn ends in calls to the caller's tools", () => {
+    const tools = [{ functionDeclarations: [{ name: "search", parameters: { type: "object" } }] }];
+    for (const isClaude of [false, true]) {
+      const state = prepareStructuredOutput(jsonRequest({ tools }), isClaude)!;
+      collectStructuredOutput(modelResponse([{ functionCall: { name: "search", args: { q: "x" } } }]), state);
+
+      expect(validateStructuredOutput(state)).toBeNull();
+    }
+  });
+});
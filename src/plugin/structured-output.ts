@@ -0,0 +1,306 @@
+import { translateToolSchema } from "./schema";
+import { readFunctionCallingConfig } from "./tool-config";
+
+/**
+ * Name of the synthetic tool used to emulate structured output on Claude models.
+ */
+export const STRUCTURED_OUTPUT_TOOL_NAME = "structured_output";
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Structured-output state for one request: the schema the caller asked for, whether it is
+ * emulated through a forced tool call, and the JSON text collected from the response.
+ */
+export interface StructuredOutputState {
+  schema: JsonSchema;
+  emulated: boolean;
+  /** Non-object schemas are wrapped in `{ value }` since tool parameters must be objects. */
+  wrapped: boolean;
+  text: string;
+  /**
+   * Plain text answer of an emulated request, validated instead of `text` when the model
+   * answers without calling the synthetic tool (it is not forced while caller tools are enabled).
+   */
+  plainText: string;
+  /** Set when the turn ended in calls to the caller's tools; there is no final answer to validate yet. */
+  toolCalls: boolean;
+}
+
+/**
+ * Reads the requested JSON schema from `generationConfig`, or undefined when the request does
+ * not ask for structured JSON output.
+ */
+function readResponseSchema(generationConfig: Record<string, unknown>): JsonSchema | undefined {
+  if (generationConfig.responseMimeType !== "application/json") {
+    return undefined;
+  }
+  const schema = generationConfig.responseSchema ?? generationConfig.responseJsonSchema;
+  return schema && typeof schema === "object" ? schema as JsonSchema : undefined;
+}
+
+/**
+ * Whether a request tool entry declares caller functions (as opposed to built-in tools such as
+ * Google Search or code execution).
+ */
+function isFunctionTool(tool: any): boolean {
+  if (!tool || typeof tool !== "object") {
+    return false;
+  }
+  if (Array.isArray(tool.functionDeclarations)) {
+    return tool.functionDeclarations.length > 0;
+  }
+  return Boolean(tool.function || tool.custom || tool.parameters || tool.input_schema || tool.inputSchema);
+}
+
+/**
+ * Adds the synthetic tool to the caller's `allowedFunctionNames`, so restricting forced tool
+ * use to the caller's own tools does not filter it out.
+ */
+function allowStructuredOutputTool(requestPayload: Record<string, unknown>): void {
+  const toolConfig = (requestPayload.toolConfig ?? requestPayload.tool_config) as Record<string, any> | undefined;
+  const config = toolConfig?.functionCallingConfig ?? toolConfig?.function_calling_config;
+  if (!config || typeof config !== "object") {
+    return;
+  }
+  for (const key of ["allowedFunctionNames", "allowed_function_names"]) {
+    if (Array.isArray(config[key]) && config[key].length > 0 && !config[key].includes(STRUCTURED_OUTPUT_TOOL_NAME)) {
+      config[key] = [...config[key], STRUCTURED_OUTPUT_TOOL_NAME];
+    }
+  }
+}
+
+/**
+ * Rewrites the request for structured output. Gemini keeps native `responseSchema` (translated
+ * to the supported subset); Claude, which ignores `responseSchema`, gets a synthetic tool whose
+ * parameters are the schema. The synthetic tool is appended to the caller's tools and the
+ * caller's tool choice is kept (with the synthetic tool added to any allowed names); it is forced
+ * only when the caller declared no tools of its own (or disabled them with mode `NONE`).
+ * Otherwise the model may also answer with JSON text, which is validated the same way.
+ */
+export function prepareStructuredOutput(
+  requestPayload: Record<string, unknown>,
+  isClaudeModel: boolean,
+): StructuredOutputState | undefined {
+  const generationConfig = requestPayload.generationConfig as Record<string, unknown> | undefined;
+  if (!generationConfig || typeof generationConfig !== "object") {
+    return undefined;
+  }
+  const schema = readResponseSchema(generationConfig);
+  if (!schema) {
+    return undefined;
+  }
+
+  delete generationConfig.responseJsonSchema;
+
+  if (!isClaudeModel) {
+    generationConfig.responseSchema = translateToolSchema(schema, "gemini");
+    return { schema, emulated: false, wrapped: false, text: "", plainText: "", toolCalls: false };
+  }
+
+  delete generationConfig.responseMimeType;
+  delete generationConfig.responseSchema;
+
+  const wrapped = schema.type !== undefined && schema.type !== "object";
+  const parameters = wrapped
+    ? { type: "object", properties: { value: schema }, required: ["value"] }
+    : schema;
+
+  const tools = Array.isArray(requestPayload.tools) ? requestPayload.tools : [];
+  const callerToolsEnabled = tools.some(isFunctionTool) && readFunctionCallingConfig(requestPayload)?.mode !== "NONE";
+  requestPayload.tools = [
+    ...tools,
+    {
+      functionDeclarations: [
+        {
+          name: STRUCTURED_OUTPUT_TOOL_NAME,
+          description: "Respond with the final answer as structured data matching this schema.",
+          parameters,
+        },
+      ],
+    },
+  ];
+  if (callerToolsEnabled) {
+    allowStructuredOutputTool(requestPayload);
+  } else {
+    delete requestPayload.tool_config;
+    requestPayload.toolConfig = {
+      functionCallingConfig: {
+        mode: "ANY",
+        allowedFunctionNames: [STRUCTURED_OUTPUT_TOOL_NAME],
+      },
+    };
+  }
+
+  return { schema, emulated: true, wrapped, text: "", plainText: "", toolCalls: false };
+}
+
+/**
+ * Collects the structured JSON text from a response (full body or SSE chunk). For emulated
+ * requests the synthetic tool call is unwrapped into a plain text part.
+ */
+export function collectStructuredOutput(response: unknown, state: StructuredOutputState): unknown {
+  if (!response || typeof response !== "object") {
+    return response;
+  }
+  const resp = response as Record<string, unknown>;
+  if (!Array.isArray(resp.candidates)) {
+    return response;
+  }
+
+  const candidates = resp.candidates.map((candidate: any, index: number) => {
+    if (!candidate?.content || !Array.isArray(candidate.content.parts)) {
+      return candidate;
+    }
+    const parts = candidate.content.parts.map((part: any) => {
+      if (index === 0 && part?.functionCall && part.functionCall.name !== STRUCTURED_OUTPUT_TOOL_NAME) {
+        state.toolCalls = true;
+      }
+      if (state.emulated && part?.functionCall?.name === STRUCTURED_OUTPUT_TOOL_NAME) {
+        const args = part.functionCall.args ?? {};
+        const text = JSON.stringify(state.wrapped ? args.value ?? null : args);
+        if (index === 0) {
+          state.text += text;
+        }
+        return { text };
+      }
+      if (index === 0 && typeof part?.text === "string" && part.thought !== true) {
+        if (state.emulated) {
+          state.plainText += part.text;
+        } else {
+          state.text += part.text;
+        }
+      }
+      return part;
+    });
+    return { ...candidate, content: { ...candidate.content, parts } };
+  });
+
+  return { ...resp, candidates };
+}
+
+/**
+ * Validates the collected JSON against the requested schema. Returns an error message, or null
+ * when the output is valid. Turns that end in calls to the caller's tools are not validated;
+ * only the final text turn carries the structured answer. Emulated requests fall back to the
+ * plain text answer when the synthetic tool was not called.
+ */
+export function validateStructuredOutput(state: StructuredOutputState): string | null {
+  if (state.toolCalls) {
+    return null;
+  }
+  const text = (state.emulated && !state.text.trim() ? state.plainText : state.text).trim();
+  if (!text) {
+    return "Model returned no structured output.";
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return "Model output is not valid JSON.";
+  }
+
+  const errors: string[] = [];
+  validateValue(value, translateToolSchema(state.schema, "claude"), "$", errors);
+  return errors.length > 0
+    ? `Model output does not match the response schema: ${errors.slice(0, 5).join("; ")}`
+    : null;
+}
+
+/**
+ * Builds the error payload returned when structured output fails validation.
+ */
+export function createStructuredOutputError(message: string): { error: { code: number; status: string; message: string } } {
+  return {
+    error: {
+      code: 502,
+      status: "INVALID_STRUCTURED_OUTPUT",
+      message,
+    },
+  };
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+/**
+ * Minimal validator for the schema subset produced by `translateToolSchema`.
+ */
+function validateValue(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+  if (value === null) {
+    if (schema.nullable !== true && schema.type !== undefined && schema.type !== "null") {
+      errors.push(`${path} must not be null`);
+    }
+    return;
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const matches = schema.anyOf.some((branch) => {
+      const branchErrors: string[] = [];
+      validateValue(value, branch as JsonSchema, path, branchErrors);
+      return branchErrors.length === 0;
+    });
+    if (!matches) {
+      errors.push(`${path} does not match any allowed schema`);
+    }
+    return;
+  }
+
+  const actual = typeOf(value);
+  const expected = schema.type;
+  if (typeof expected === "string" && expected !== actual && !(expected === "number" && actual === "integer")) {
+    errors.push(`${path} should be ${expected}, got ${actual}`);
+    return;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => option === value)) {
+    errors.push(`${path} must be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path} must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path} must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === "object") {
+      value.forEach((item, index) => validateValue(item, schema.items as JsonSchema, `${path}[${index}]`, errors));
+    }
+    return;
+  }
+
+  if (actual === "object") {
+    const record = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    for (const name of Array.isArray(schema.required) ? schema.required : []) {
+      if (typeof name === "string" && !(name in record)) {
+        errors.push(`${path}.${name} is required`);
+      }
+    }
+    for (const [key, propValue] of Object.entries(record)) {
+      const propSchema = properties[key];
+      if (propSchema) {
+        validateValue(propValue, propSchema, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        validateValue(propValue, schema.additionalProperties as JsonSchema, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
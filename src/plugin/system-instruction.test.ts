@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+import { buildTextSystemInstruction, extractSystemParts } from "./system-instruction";
+
+describe("extractSystemParts", () => {
+  it("merges every system shape in a fixed order and removes system turns", () => {
+    const payload: Record<string, unknown> = {
+      system_instruction: "Be brief.",
+      system: [{ type: "text", text: "Use tools." }],
+      contents: [
+        { role: "system", parts: [{ text: "Be brief." }, { text: "Cite sources." }] },
+        { role: "user", parts: [{ text: "hi" }] },
+        { role: "system", content: "Answer in English." },
+      ],
+    };
+
+    expect(extractSystemParts(payload)).toEqual([
+      { text: "Be brief." },
+      { text: "Use tools." },
+      { text: "Cite sources." },
+      { text: "Answer in English." },
+    ]);
+    expect(payload).toEqual({ contents: [{ role: "user", parts: [{ text: "hi" }] }] });
+  });
+});
+
+describe("buildTextSystemInstruction", () => {
+  it("joins text parts and reports dropped attachments", () => {
+    const adjustments: string[] = [];
+
+    expect(
+      buildTextSystemInstruction(
+        [{ text: "One." }, { inlineData: { mimeType: "image/png", data: "AA==" } }, { text: "Two." }],
+        adjustments,
+      ),
+    ).toEqual({ role: "user", parts: [{ text: "One.\n\nTwo." }] });
+    expect(adjustments).toEqual(["dropped 1 non-text system instruction part(s)"]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Request fields that may carry system instructions, in merge order.
+ */
+const SYSTEM_FIELDS = ["systemInstruction", "system_instruction", "system"] as const;
+
+/**
+ * Converts one system-instruction value into Gemini parts. Accepts strings, parts, part arrays,
+ * contents (`{ role, parts }`), Anthropic text blocks (`{ type: "text", text }`) and OpenAI-style
+ * messages (`{ role: "system", content }`).
+ */
+function toSystemParts(value: unknown): any[] {
+  if (typeof value === "string") {
+    return value.trim() ? [{ text: value }] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => toSystemParts(entry));
+  }
+  if (!value || typeof value !== "object") {
+    return [];
+  }
+
+  const record = value as Record<string, unknown>;
+  if (Array.isArray(record.parts)) {
+    return toSystemParts(record.parts);
+  }
+  if (record.type === "text" && typeof record.text === "string") {
+    // Anthropic blocks may carry a prompt-cache hint, kept for the Claude request path
+    const cacheControl = record.cache_control ?? record.cacheControl;
+    return toSystemParts(record.text).map((part) => (cacheControl ? { ...part, cacheControl } : part));
+  }
+  if (typeof record.text === "string") {
+    return record.text.trim() ? [record] : [];
+  }
+  if (record.inlineData || record.fileData) {
+    return [record];
+  }
+  if (record.content !== undefined) {
+    return toSystemParts(record.content);
+  }
+  return [];
+}
+
+/**
+ * Removes every system instruction from a request payload (`systemInstruction`,
+ * `system_instruction`, Anthropic-style `system`, and `role: "system"` entries in `contents`)
+ * and returns them merged into one part list: top-level fields first, then system turns in
+ * history order. Exact duplicate text parts are dropped.
+ */
+export function extractSystemParts(requestPayload: Record<string, unknown>): any[] {
+  const parts: any[] = [];
+  for (const field of SYSTEM_FIELDS) {
+    if (field in requestPayload) {
+      parts.push(...toSystemParts(requestPayload[field]));
+      delete requestPayload[field];
+    }
+  }
+
+  if (Array.isArray(requestPayload.contents)) {
+    requestPayload.contents = requestPayload.contents.filter((content: any) => {
+      if (typeof content?.role !== "string" || content.role.trim().toLowerCase() !== "system") {
+        return true;
+      }
+      parts.push(...toSystemParts(content));
+      return false;
+    });
+  }
+
+  const seenText = new Set<string>();
+  return parts.filter((part) => {
+    if (typeof part.text !== "string" || Object.keys(part).length > 1) {
+      return true;
+    }
+    if (seenText.has(part.text)) {
+      return false;
+    }
+    seenText.add(part.text);
+    return true;
+  });
+}
+
+/**
+ * Builds a Gemini `systemInstruction`, keeping every part as sent.
+ */
+export function buildSystemInstruction(parts: any[]): Record<string, unknown> | undefined {
+  return parts.length > 0 ? { role: "user", parts } : undefined;
+}
+
+/**
+ * Builds a text-only `systemInstruction` for upstreams that accept plain text system prompts
+ * (Claude): text parts are joined into one, other parts are dropped and reported in
+ * `adjustments`. A prompt-cache hint on any text part is kept on the joined part.
+ */
+export function buildTextSystemInstruction(parts: any[], adjustments: string[]): Record<string, unknown> | undefined {
+  const texts = parts
+    .filter((part) => typeof part.text === "string" && part.thought !== true)
+    .map((part) => part.text as string);
+  const dropped = parts.length - texts.length;
+  if (dropped > 0) {
+    adjustments.push(`dropped ${dropped} non-text system instruction part(s)`);
+  }
+  if (texts.length === 0) {
+    return undefined;
+  }
+  const cacheControl = parts.map((part) => part.cacheControl ?? part.cache_control).findLast(Boolean);
+  return { role: "user", parts: [{ text: texts.join("\n\n"), ...(cacheControl ? { cacheControl } : {}) }] };
+}
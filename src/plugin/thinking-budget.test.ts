@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { extractThinkingConfig } from "./request-helpers";
+import { resetThinkingBudgetOverrides, resolveEffortBudget } from "./thinking-budget";
+
+describe("thinking budgets", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetThinkingBudgetOverrides();
+  });
+
+  it("maps reasoning_effort and thinkingLevel onto budgets", () => {
+    expect(extractThinkingConfig({ reasoning_effort: "high" }, undefined, undefined, "claude-opus-4-5-thinking")).toEqual({
+      includeThoughts: true,
+      thinkingBudget: 32768,
+      source: "reasoning_effort=high",
+    });
+    expect(
+      extractThinkingConfig({}, { thinkingConfig: { thinkingLevel: "LOW", includeThoughts: true } }, undefined, "gemini-3-pro-high"),
+    ).toEqual({ includeThoughts: true, thinkingBudget: 4096, source: "thinkingLevel=low" });
+    expect(extractThinkingConfig({ reasoning_effort: "none" }, undefined, undefined, "gemini-3-pro-high")).toMatchObject({
+      includeThoughts: false,
+      thinkingBudget: 0,
+    });
+  });
+
+  it("keeps explicit budgets and uses the model variant suffix as the default effort", () => {
+    expect(
+      extractThinkingConfig({ reasoning_effort: "high" }, { thinkingConfig: { thinkingBudget: 2048 } }, undefined, "gemini-3-pro-low"),
+    ).toMatchObject({ thinkingBudget: 2048 });
+    expect(extractThinkingConfig({}, { thinkingConfig: { includeThoughts: true } }, undefined, "gemini-3-pro-low")).toEqual({
+      includeThoughts: true,
+      thinkingBudget: 4096,
+      source: "default effort low",
+    });
+  });
+
+  it("applies team overrides per model before the team default", () => {
+    vi.stubEnv(
+      "OPENCODE_ANTIGRAVITY_THINKING_BUDGETS",
+      JSON.stringify({ default: { high: 24576, medium: 8000 }, "claude-opus-4-5-thinking": { high: 48000 } }),
+    );
+
+    expect(resolveEffortBudget("claude-opus-4-5-thinking", "high")).toBe(48000);
+    expect(resolveEffortBudget("claude-sonnet-4-5-thinking", "high")).toBe(24576);
+    expect(resolveEffortBudget("gemini-3-pro-high", "medium")).toBe(8000);
+    expect(resolveEffortBudget("gemini-3-pro-high", "low")).toBe(4096);
+  });
+});
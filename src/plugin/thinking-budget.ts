@@ -0,0 +1,111 @@
+import { readFileSync } from "node:fs";
+import { env } from "node:process";
+
+import { DEFAULT_THINKING_BUDGET, getModelInfo, normalizeModelId } from "./models";
+
+/**
+ * Reasoning effort levels, as used by OpenAI-style `reasoning_effort`, Gemini 3 `thinkingLevel`
+ * and model variant suffixes (`gemini-3-pro-high`, `gpt-oss-120b-medium`).
+ */
+export type ReasoningEffort = "none" | "minimal" | "low" | "medium" | "high";
+
+type EffortBudgets = Partial<Record<ReasoningEffort, number>>;
+
+const REASONING_EFFORTS: readonly ReasoningEffort[] = ["none", "minimal", "low", "medium", "high"];
+
+/**
+ * Built-in budgets per effort level. `medium` falls back to the model's default budget.
+ */
+const DEFAULT_EFFORT_BUDGETS: Readonly<Record<ReasoningEffort, number>> = {
+  none: 0,
+  minimal: 1024,
+  low: 4096,
+  medium: DEFAULT_THINKING_BUDGET,
+  high: 32768,
+};
+
+/**
+ * Team overrides keyed by model ID, with `default` applying to every model.
+ */
+let budgetOverrides: Record<string, EffortBudgets> | null = null;
+
+/**
+ * Parses an effort level from request input, ignoring unknown values.
+ */
+export function parseReasoningEffort(value: unknown): ReasoningEffort | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const normalized = value.trim().toLowerCase();
+  return REASONING_EFFORTS.find((effort) => effort === normalized);
+}
+
+/**
+ * Effort implied by the model ID's variant suffix, or `medium` when there is none.
+ */
+export function defaultReasoningEffort(model: string): ReasoningEffort {
+  const suffix = normalizeModelId(model).match(/-(minimal|low|medium|high)$/)?.[1];
+  return parseReasoningEffort(suffix) ?? "medium";
+}
+
+/**
+ * Loads team budget overrides from `OPENCODE_ANTIGRAVITY_THINKING_BUDGETS`, given either as
+ * inline JSON or as the path of a JSON file, e.g.
+ * `{ "default": { "high": 24576 }, "claude-opus-4-5-thinking": { "high": 48000 } }`.
+ * Invalid configuration is ignored.
+ */
+function loadBudgetOverrides(): Record<string, EffortBudgets> {
+  if (budgetOverrides) {
+    return budgetOverrides;
+  }
+
+  budgetOverrides = {};
+  const raw = env.OPENCODE_ANTIGRAVITY_THINKING_BUDGETS?.trim();
+  if (!raw) {
+    return budgetOverrides;
+  }
+  try {
+    const parsed = JSON.parse(raw.startsWith("{") ? raw : readFileSync(raw, "utf8")) as unknown;
+    if (parsed && typeof parsed === "object") {
+      for (const [model, budgets] of Object.entries(parsed as Record<string, unknown>)) {
+        if (!budgets || typeof budgets !== "object") {
+          continue;
+        }
+        const entry: EffortBudgets = {};
+        for (const [effort, budget] of Object.entries(budgets as Record<string, unknown>)) {
+          const level = parseReasoningEffort(effort);
+          if (level && typeof budget === "number" && Number.isFinite(budget) && budget >= 0) {
+            entry[level] = Math.floor(budget);
+          }
+        }
+        budgetOverrides[model.trim().toLowerCase()] = entry;
+      }
+    }
+  } catch {
+    // Fall back to built-in budgets.
+  }
+  return budgetOverrides;
+}
+
+/**
+ * Resolves the thinking budget for an effort level on a model: team override for the model,
+ * then the team default, then the catalog default (for `medium`), then the built-in table.
+ */
+export function resolveEffortBudget(model: string, effort: ReasoningEffort): number {
+  const overrides = loadBudgetOverrides();
+  const override = overrides[normalizeModelId(model)]?.[effort] ?? overrides.default?.[effort];
+  if (override !== undefined) {
+    return override;
+  }
+  if (effort === "medium") {
+    return getModelInfo(model)?.defaultThinkingBudget ?? DEFAULT_EFFORT_BUDGETS.medium;
+  }
+  return DEFAULT_EFFORT_BUDGETS[effort];
+}
+
+/**
+ * Clears cached overrides so configuration changes are picked up (used by tests).
+ */
+export function resetThinkingBudgetOverrides(): void {
+  budgetOverrides = null;
+}
@@ -0,0 +1,108 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { deriveConversationKey } from "./conversation";
+
+type ThinkingCacheModule = typeof import("./thinking-cache");
+
+/**
+ * Imports a fresh copy of the module so its in-memory cache is reloaded from disk.
+ */
+async function loadThinkingCache(): Promise<ThinkingCacheModule> {
+  vi.resetModules();
+  return import("./thinking-cache");
+}
+
+const history = [
+  { role: "user", parts: [{ text: "fix the bug" }] },
+  { role: "model", parts: [{ text: "Reading the file." }, { functionCall: { name: "read", args: {} } }] },
+  { role: "user", parts: [{ functionResponse: { name: "read", response: { output: "..." } } }] },
+];
+
+describe("thinking signature cache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "antigravity-thinking-"));
+    process.env.OPENCODE_ANTIGRAVITY_THINKING_CACHE = join(dir, "nested", "signatures.json");
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.OPENCODE_ANTIGRAVITY_THINKING_CACHE;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("persists captured signatures and restores them into history after a reload", async () => {
+    const cache = await loadThinkingCache();
+    const capture = cache.createThinkingCapture("conversation-1");
+    cache.captureThinkingFromResponse(capture, {
+      candidates: [
+        {
+          content: {
+            role: "model",
+            parts: [
+              { thought: true, text: "Let me " },
+              { thought: true, text: "look.", thoughtSignature: "sig-1" },
+              { text: "Reading the file." },
+              { functionCall: { name: "read", args: {} } },
+            ],
+          },
+        },
+      ],
+    });
+    cache.commitThinkingCapture(capture);
+
+    const cacheFile = process.env.OPENCODE_ANTIGRAVITY_THINKING_CACHE!;
+    expect(existsSync(cacheFile)).toBe(false);
+    vi.advanceTimersByTime(1000);
+    expect(JSON.parse(readFileSync(cacheFile, "utf8"))["conversation-1"].turns).toBeDefined();
+
+    const reloaded = await loadThinkingCache();
+    const restored = reloaded.restoreThinkingBlocks(history, "conversation-1");
+
+    expect(restored[1].parts).toEqual([
+      { thought: true, text: "Let me look.", thoughtSignature: "sig-1" },
+      { text: "Reading the file." },
+      { functionCall: { name: "read", args: {} } },
+    ]);
+    expect(restored[0]).toBe(history[0]);
+    expect(reloaded.restoreThinkingBlocks(history, "conversation-2")).toBe(history);
+  });
+
+  it("leaves turns that already carry signed thinking untouched", async () => {
+    const cache = await loadThinkingCache();
+    const capture = cache.createThinkingCapture("conversation-1");
+    cache.captureThinkingFromResponse(capture, {
+      content: [
+        { type: "thinking", thinking: "plan", signature: "sig-2" },
+        { type: "text", text: "Done." },
+      ],
+    });
+    cache.commitThinkingCapture(capture);
+
+    const signed = { role: "model", parts: [{ type: "thinking", thinking: "other", signature: "sig-3" }, { text: "Done." }] };
+    const unsigned = { role: "model", parts: [{ text: "Done." }] };
+    const [keptSigned, restored] = cache.restoreThinkingBlocks([signed, unsigned], "conversation-1");
+
+    expect(keptSigned).toBe(signed);
+    expect(restored.parts[0]).toEqual({ thought: true, text: "plan", thoughtSignature: "sig-2" });
+  });
+});
+
+describe("deriveConversationKey", () => {
+  it("keys conversations by their opening turn and the caller's session ID", () => {
+    const payload = { systemInstruction: { parts: [{ text: "sys" }] }, contents: history };
+    const laterTurn = { ...payload, contents: [...history, { role: "user", parts: [{ text: "more" }] }] };
+
+    expect(deriveConversationKey(laterTurn)).toBe(deriveConversationKey(payload));
+    expect(deriveConversationKey(payload, "session-a")).toBe(deriveConversationKey(laterTurn, "session-a"));
+    expect(deriveConversationKey(payload, "session-a")).not.toBe(deriveConversationKey(payload, "session-b"));
+    expect(deriveConversationKey(payload, "session-a")).not.toBe(deriveConversationKey(payload));
+    expect(deriveConversationKey({ contents: [] })).toBeUndefined();
+    expect(deriveConversationKey({ contents: [] }, "session-a")).toBeDefined();
+  });
+});
@@ -0,0 +1,264 @@
+import crypto from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { env } from "node:process";
+
+const MAX_CONVERSATIONS = 200;
+const MAX_TURNS_PER_CONVERSATION = 100;
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * A signed thinking block captured from a Claude response.
+ */
+export interface CachedThinkingBlock {
+  text: string;
+  signature: string;
+}
+
+interface ConversationEntry {
+  updatedAt: number;
+  turns: Record<string, CachedThinkingBlock[]>;
+}
+
+/**
+ * Accumulates thinking blocks and the visible output of one response (streamed or not)
+ * until it can be committed to the cache.
+ */
+export interface ThinkingCapture {
+  conversationKey: string;
+  blocks: CachedThinkingBlock[];
+  pendingText: string;
+  texts: string[];
+  callNames: string[];
+}
+
+let conversations: Map<string, ConversationEntry> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Location of the persisted cache; overridable for tests and custom setups.
+ */
+function cacheFilePath(): string {
+  const override = env.OPENCODE_ANTIGRAVITY_THINKING_CACHE?.trim();
+  if (override) {
+    return override;
+  }
+  const cacheRoot = env.XDG_CACHE_HOME?.trim() || join(homedir(), ".cache");
+  return join(cacheRoot, "opencode", "antigravity-thinking-signatures.json");
+}
+
+/**
+ * Loads the persisted cache on first use so signatures survive plugin restarts.
+ */
+function loadConversations(): Map<string, ConversationEntry> {
+  if (conversations) {
+    return conversations;
+  }
+
+  conversations = new Map();
+  try {
+    const raw = JSON.parse(readFileSync(cacheFilePath(), "utf8")) as Record<string, ConversationEntry>;
+    for (const [key, entry] of Object.entries(raw ?? {})) {
+      if (entry && typeof entry === "object" && entry.turns && typeof entry.turns === "object") {
+        conversations.set(key, entry);
+      }
+    }
+  } catch {
+    // Missing or corrupt cache files start empty.
+  }
+  return conversations;
+}
+
+/**
+ * Writes the cache to disk shortly after the last update, batching bursts of responses.
+ */
+function schedulePersist(): void {
+  if (persistTimer) {
+    return;
+  }
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    if (!conversations) {
+      return;
+    }
+    try {
+      const filePath = cacheFilePath();
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, JSON.stringify(Object.fromEntries(conversations)));
+    } catch (error) {
+      console.warn("[Antigravity] Failed to persist thinking signature cache:", error);
+    }
+  }, PERSIST_DELAY_MS);
+  persistTimer.unref?.();
+}
+
+/**
+ * Identifies a model turn by its visible output (text and tool call names), which clients
+ * echo back in history even when they drop the thinking blocks.
+ */
+function fingerprintTurn(texts: string[], callNames: string[]): string | undefined {
+  const text = texts.join("").trim();
+  if (!text && callNames.length === 0) {
+    return undefined;
+  }
+  return crypto
+    .createHash("sha256")
+    .update(`${text}\u0000${callNames.join(",")}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function fingerprintParts(parts: any[]): string | undefined {
+  const texts: string[] = [];
+  const callNames: string[] = [];
+  for (const part of parts) {
+    if (!part || typeof part !== "object" || isThinkingLike(part)) {
+      continue;
+    }
+    if (typeof part.text === "string") {
+      texts.push(part.text);
+    }
+    if (part.functionCall && typeof part.functionCall.name === "string") {
+      callNames.push(part.functionCall.name);
+    }
+  }
+  return fingerprintTurn(texts, callNames);
+}
+
+function isThinkingLike(part: Record<string, unknown>): boolean {
+  return part.thought === true
+    || part.type === "thinking"
+    || part.type === "reasoning"
+    || part.thinking !== undefined;
+}
+
+function hasSignedThinking(parts: any[]): boolean {
+  return parts.some((part) =>
+    part && typeof part === "object" && isThinkingLike(part) && Boolean(part.thoughtSignature || part.signature),
+  );
+}
+
+/**
+ * Starts capturing thinking blocks for a response in the given conversation.
+ */
+export function createThinkingCapture(conversationKey: string): ThinkingCapture {
+  return { conversationKey, blocks: [], pendingText: "", texts: [], callNames: [] };
+}
+
+/**
+ * Feeds one response object (a full response or a single SSE chunk) into the capture.
+ * Handles Gemini-style `thought` parts with `thoughtSignature` and Anthropic-style
+ * `thinking` blocks with `signature`.
+ */
+export function captureThinkingFromResponse(capture: ThinkingCapture, response: unknown): void {
+  if (!response || typeof response !== "object") {
+    return;
+  }
+
+  const resp = response as Record<string, any>;
+  const parts: any[] = Array.isArray(resp.candidates)
+    ? resp.candidates[0]?.content?.parts ?? []
+    : Array.isArray(resp.content)
+      ? resp.content
+      : [];
+
+  for (const part of parts) {
+    if (!part || typeof part !== "object") {
+      continue;
+    }
+
+    const signature = part.thoughtSignature ?? part.signature;
+    if (isThinkingLike(part)) {
+      const text = part.type === "thinking" ? part.thinking ?? part.text : part.text;
+      if (typeof text === "string") {
+        capture.pendingText += text;
+      }
+    } else {
+      if (typeof part.text === "string") {
+        capture.texts.push(part.text);
+      }
+      if (part.functionCall && typeof part.functionCall.name === "string") {
+        capture.callNames.push(part.functionCall.name);
+      }
+    }
+
+    if (typeof signature === "string" && signature && capture.pendingText) {
+      capture.blocks.push({ text: capture.pendingText, signature });
+      capture.pendingText = "";
+    }
+  }
+}
+
+/**
+ * Stores the captured signed thinking blocks, keyed by conversation and model turn.
+ */
+export function commitThinkingCapture(capture: ThinkingCapture): void {
+  if (capture.blocks.length === 0) {
+    return;
+  }
+  const turnKey = fingerprintTurn(capture.texts, capture.callNames);
+  if (!turnKey) {
+    return;
+  }
+
+  const store = loadConversations();
+  const entry = store.get(capture.conversationKey) ?? { updatedAt: 0, turns: {} };
+  entry.turns[turnKey] = capture.blocks;
+  entry.updatedAt = Date.now();
+
+  const turnKeys = Object.keys(entry.turns);
+  for (const staleKey of turnKeys.slice(0, Math.max(0, turnKeys.length - MAX_TURNS_PER_CONVERSATION))) {
+    delete entry.turns[staleKey];
+  }
+
+  // Re-insert so Map iteration order reflects recency.
+  store.delete(capture.conversationKey);
+  store.set(capture.conversationKey, entry);
+  while (store.size > MAX_CONVERSATIONS) {
+    const oldest = store.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    store.delete(oldest);
+  }
+
+  capture.blocks = [];
+  schedulePersist();
+}
+
+/**
+ * Re-injects cached signed thinking blocks at the start of model turns whose thinking was
+ * dropped by the client, so Claude can keep thinking enabled across turns.
+ */
+export function restoreThinkingBlocks(contents: any[], conversationKey: string | undefined): any[] {
+  if (!conversationKey) {
+    return contents;
+  }
+  const entry = loadConversations().get(conversationKey);
+  if (!entry) {
+    return contents;
+  }
+
+  return contents.map((content: any) => {
+    if (!content || (content.role !== "model" && content.role !== "assistant") || !Array.isArray(content.parts)) {
+      return content;
+    }
+    if (hasSignedThinking(content.parts)) {
+      return content;
+    }
+    const turnKey = fingerprintParts(content.parts);
+    const blocks = turnKey ? entry.turns[turnKey] : undefined;
+    if (!blocks || blocks.length === 0) {
+      return content;
+    }
+
+    const visibleParts = content.parts.filter((part: any) => !(part && typeof part === "object" && isThinkingLike(part)));
+    const thinkingParts = blocks.map((block) => ({
+      thought: true,
+      text: block.text,
+      thoughtSignature: block.signature,
+    }));
+    return { ...content, parts: [...thinkingParts, ...visibleParts] };
+  });
+}
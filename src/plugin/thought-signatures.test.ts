@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import { recordFunctionCallSignatures, restoreFunctionCallSignatures } from "./thought-signatures";
+
+function callResponse(...parts: unknown[]) {
+  return { candidates: [{ content: { role: "model", parts } }] };
+}
+
+function callTurn(functionCall: Record<string, unknown>) {
+  return { role: "model", parts: [{ functionCall }] };
+}
+
+describe("function call thought signatures", () => {
+  it("restores signatures by call ID, or by name and arguments in any key order", () => {
+    recordFunctionCallSignatures(
+      "conv-lookup",
+      callResponse(
+        { functionCall: { id: "call-1", name: "read", args: { path: "a.ts" } }, thoughtSignature: "sig-by-id" },
+        { functionCall: { name: "grep", args: { pattern: "x", path: "src" } }, thoughtSignature: "sig-by-args" },
+      ),
+    );
+
+    const [byId, byArgs, otherArgs] = restoreFunctionCallSignatures(
+      [
+        callTurn({ id: "call-1", name: "read", args: { path: "renamed.ts" } }),
+        callTurn({ name: "grep", args: { path: "src", pattern: "x" } }),
+        callTurn({ name: "grep", args: { path: "lib", pattern: "x" } }),
+      ],
+      "conv-lookup",
+    );
+
+    expect(byId.parts[0].thoughtSignature).toBe("sig-by-id");
+    expect(byArgs.parts[0].thoughtSignature).toBe("sig-by-args");
+    expect(otherArgs.parts[0].thoughtSignature).toBeUndefined();
+  });
+
+  it("keeps signatures per conversation and leaves signed calls alone", () => {
+    recordFunctionCallSignatures("conv-a", callResponse({ functionCall: { name: "ls", args: {} }, thoughtSignature: "sig-a" }));
+    const signed = { role: "model", parts: [{ functionCall: { name: "ls", args: {} }, thoughtSignature: "sig-client" }] };
+    const contents = [callTurn({ name: "ls", args: {} })];
+
+    expect(restoreFunctionCallSignatures(contents, "conv-b")).toEqual(contents);
+    expect(restoreFunctionCallSignatures([signed], "conv-a")[0]).toBe(signed);
+  });
+
+  it("evicts the oldest signatures beyond 2000 entries", () => {
+    recordFunctionCallSignatures("conv-evict", callResponse({ functionCall: { name: "first", args: {} }, thoughtSignature: "sig-first" }));
+    recordFunctionCallSignatures(
+      "conv-evict",
+      callResponse(
+        ...Array.from({ length: 2000 }, (_, index) => ({
+          functionCall: { name: "call", args: { index } },
+          thoughtSignature: `sig-${index}`,
+        })),
+      ),
+    );
+
+    const [first, oldestKept, newest] = restoreFunctionCallSignatures(
+      [callTurn({ name: "first", args: {} }), callTurn({ name: "call", args: { index: 0 } }), callTurn({ name: "call", args: { index: 1999 } })],
+      "conv-evict",
+    );
+
+    expect(first.parts[0].thoughtSignature).toBeUndefined();
+    expect(oldestKept.parts[0].thoughtSignature).toBe("sig-0");
+    expect(newest.parts[0].thoughtSignature).toBe("sig-1999");
+  });
+});
@@ -0,0 +1,102 @@
+const MAX_SIGNATURES = 2000;
+
+/**
+ * `thoughtSignature`s returned by Gemini 3 on `functionCall` parts, keyed by conversation and
+ * call. Gemini expects the signature back on the same call in the next turn, but many clients
+ * drop unknown part fields when replaying history.
+ */
+const signatures = new Map<string, string>();
+
+/**
+ * Serializes call arguments with sorted keys so re-serialized history still matches.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function callKeys(conversationKey: string, call: Record<string, unknown>): string[] {
+  const keys = [`${conversationKey}:${String(call.name)}:${stableStringify(call.args ?? {})}`];
+  if (typeof call.id === "string" && call.id) {
+    keys.unshift(`${conversationKey}:id:${call.id}`);
+  }
+  return keys;
+}
+
+function remember(key: string, signature: string): void {
+  signatures.delete(key);
+  signatures.set(key, signature);
+  while (signatures.size > MAX_SIGNATURES) {
+    const oldest = signatures.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    signatures.delete(oldest);
+  }
+}
+
+/**
+ * Records signatures found on `functionCall` parts of a response (full body or SSE chunk).
+ */
+export function recordFunctionCallSignatures(conversationKey: string, response: unknown): void {
+  if (!response || typeof response !== "object") {
+    return;
+  }
+  const candidates = (response as { candidates?: unknown }).candidates;
+  if (!Array.isArray(candidates)) {
+    return;
+  }
+
+  for (const candidate of candidates) {
+    const parts = candidate?.content?.parts;
+    if (!Array.isArray(parts)) {
+      continue;
+    }
+    for (const part of parts) {
+      if (!part?.functionCall || typeof part.thoughtSignature !== "string" || !part.thoughtSignature) {
+        continue;
+      }
+      for (const key of callKeys(conversationKey, part.functionCall)) {
+        remember(key, part.thoughtSignature);
+      }
+    }
+  }
+}
+
+/**
+ * Restores recorded signatures onto `functionCall` parts in request contents that lack one.
+ */
+export function restoreFunctionCallSignatures(contents: any[], conversationKey: string | undefined): any[] {
+  if (!conversationKey || signatures.size === 0) {
+    return contents;
+  }
+
+  return contents.map((content: any) => {
+    if (!content || !Array.isArray(content.parts)) {
+      return content;
+    }
+    let changed = false;
+    const parts = content.parts.map((part: any) => {
+      if (!part?.functionCall || part.thoughtSignature) {
+        return part;
+      }
+      const signature = callKeys(conversationKey, part.functionCall)
+        .map((key) => signatures.get(key))
+        .find(Boolean);
+      if (!signature) {
+        return part;
+      }
+      changed = true;
+      return { ...part, thoughtSignature: signature };
+    });
+    return changed ? { ...content, parts } : content;
+  });
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import { applyClaudeToolConfig, mapAllowedFunctionNames } from "./tool-config";
+import { createToolNameMapping, registerToolName } from "./tool-names";
+
+function claudeTools() {
+  const toolNames = createToolNameMapping();
+  const tools = [
+    { functionDeclarations: [{ name: registerToolName(toolNames, "fs.read") }, { name: registerToolName(toolNames, "fs.write") }] },
+    { functionDeclarations: [{ name: registerToolName(toolNames, "search") }] },
+  ];
+  return { toolNames, tools };
+}
+
+describe("applyClaudeToolConfig", () => {
+  it("removes tools for NONE and converts tool history to text", () => {
+    const { toolNames, tools } = claudeTools();
+    const payload: Record<string, unknown> = {
+      tools,
+      toolConfig: { functionCallingConfig: { mode: "none" } },
+      contents: [
+        { role: "user", parts: [{ text: "read it" }] },
+        { role: "model", parts: [{ functionCall: { name: "fs_read", args: { path: "a.ts" } } }] },
+        { role: "user", parts: [{ functionResponse: { name: "fs_read", response: { output: "code" } } }] },
+      ],
+    };
+
+    applyClaudeToolConfig(payload, toolNames);
+
+    expect(payload.tools).toBeUndefined();
+    expect(payload.toolConfig).toBeUndefined();
+    expect(payload.contents).toEqual([
+      { role: "user", parts: [{ text: "read it" }] },
+      { role: "model", parts: [{ text: "[Tool call: fs_read] {\"path\":\"a.ts\"}" }] },
+      { role: "user", parts: [{ text: "[Tool result for fs_read] {\"output\":\"code\"}" }] },
+    ]);
+  });
+
+  it("filters declarations to the allowed names for ANY", () => {
+    const { toolNames, tools } = claudeTools();
+    const payload: Record<string, unknown> = {
+      tools,
+      tool_config: { function_calling_config: { mode: "ANY", allowed_function_names: ["fs.read"] } },
+    };
+
+    applyClaudeToolConfig(payload, toolNames);
+
+    expect(payload.tools).toEqual([{ functionDeclarations: [{ name: "fs_read" }] }]);
+    expect(payload.toolConfig).toEqual({ functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["fs_read"] } });
+    expect(payload.tool_config).toBeUndefined();
+  });
+
+  it("forces any declared tool when ANY names no declared tool", () => {
+    const { toolNames, tools } = claudeTools();
+    const payload: Record<string, unknown> = {
+      tools,
+      toolConfig: { functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["missing"] } },
+    };
+
+    applyClaudeToolConfig(payload, toolNames);
+
+    expect(payload.tools).toBe(tools);
+    expect(payload.toolConfig).toEqual({ functionCallingConfig: { mode: "ANY" } });
+  });
+
+  it("uses auto tool choice for AUTO and leaves requests without config alone", () => {
+    const { toolNames, tools } = claudeTools();
+    const auto: Record<string, unknown> = { tools, toolConfig: { functionCallingConfig: { mode: "AUTO", allowedFunctionNames: ["search"] } } };
+    const unset: Record<string, unknown> = { tools };
+
+    applyClaudeToolConfig(auto, toolNames);
+    applyClaudeToolConfig(unset, toolNames);
+
+    expect(auto).toEqual({ tools, toolConfig: { functionCallingConfig: { mode: "AUTO" } } });
+    expect(unset).toEqual({ tools });
+  });
+});
+
+describe("mapAllowedFunctionNames", () => {
+  it("rewrites allowed names to their sanitized form and keeps unknown names", () => {
+    const { toolNames } = claudeTools();
+    const payload = { toolConfig: { functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["fs.write", "unknown"] } } };
+
+    mapAllowedFunctionNames(payload, toolNames);
+
+    expect(payload.toolConfig.functionCallingConfig.allowedFunctionNames).toEqual(["fs_write", "unknown"]);
+  });
+});
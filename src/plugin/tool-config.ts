@@ -0,0 +1,148 @@
+import type { ToolNameMapping } from "./tool-names";
+
+/**
+ * Gemini `functionCallingConfig`, read from either camelCase or snake_case request fields.
+ */
+export interface FunctionCallingConfig {
+  mode?: string;
+  allowedFunctionNames?: string[];
+}
+
+/**
+ * Extracts `toolConfig.functionCallingConfig` from a request payload.
+ */
+export function readFunctionCallingConfig(requestPayload: Record<string, unknown>): FunctionCallingConfig | undefined {
+  const toolConfig = (requestPayload.toolConfig ?? requestPayload.tool_config) as Record<string, unknown> | undefined;
+  if (!toolConfig || typeof toolConfig !== "object") {
+    return undefined;
+  }
+  const config = (toolConfig.functionCallingConfig ?? toolConfig.function_calling_config) as
+    | Record<string, unknown>
+    | undefined;
+  if (!config || typeof config !== "object") {
+    return undefined;
+  }
+
+  const mode = typeof config.mode === "string" ? config.mode.toUpperCase() : undefined;
+  const allowed = config.allowedFunctionNames ?? config.allowed_function_names;
+  return {
+    mode,
+    allowedFunctionNames: Array.isArray(allowed)
+      ? allowed.filter((name): name is string => typeof name === "string")
+      : undefined,
+  };
+}
+
+/**
+ * Rewrites `allowedFunctionNames` to the sanitized names the declarations are sent under, so a
+ * restriction to `fs.read` still matches the `fs_read` declaration. For families that forward
+ * `functionCallingConfig` as is; call it after the tools are normalized.
+ */
+export function mapAllowedFunctionNames(requestPayload: Record<string, unknown>, toolNames: ToolNameMapping): void {
+  const toolConfig = (requestPayload.toolConfig ?? requestPayload.tool_config) as Record<string, any> | undefined;
+  const config = toolConfig?.functionCallingConfig ?? toolConfig?.function_calling_config;
+  if (!config || typeof config !== "object") {
+    return;
+  }
+  for (const key of ["allowedFunctionNames", "allowed_function_names"]) {
+    if (Array.isArray(config[key])) {
+      config[key] = config[key].map((name: unknown) =>
+        typeof name === "string" ? toolNames.toUpstream.get(name) ?? name : name,
+      );
+    }
+  }
+}
+
+/**
+ * Whether the request forces the model to call a tool (mode `ANY`). Claude rejects forced
+ * tool use while extended thinking is enabled.
+ */
+export function isForcedToolUse(requestPayload: Record<string, unknown>): boolean {
+  return readFunctionCallingConfig(requestPayload)?.mode === "ANY";
+}
+
+/**
+ * Replaces tool calls and results in history with text, for requests that no longer declare
+ * tools (Anthropic rejects tool blocks in requests without tool definitions).
+ */
+function convertToolHistoryToText(contents: any[]): any[] {
+  return contents.map((content: any) => {
+    if (!content || !Array.isArray(content.parts)) {
+      return content;
+    }
+    const parts = content.parts.map((part: any) => {
+      if (part?.functionCall) {
+        const { name, args } = part.functionCall;
+        return { text: `[Tool call: ${name}] ${JSON.stringify(args ?? {})}` };
+      }
+      if (part?.functionResponse) {
+        const { name, response } = part.functionResponse;
+        const serialized = typeof response === "string" ? response : JSON.stringify(response ?? {});
+        return { text: `[Tool result for ${name}] ${serialized}` };
+      }
+      return part;
+    });
+    return { ...content, parts };
+  });
+}
+
+/**
+ * Translates `functionCallingConfig` into Claude tool-choice semantics on already normalized
+ * Claude tools:
+ * - `AUTO` (or unset) → auto tool choice,
+ * - `ANY` → forced tool use; declarations are filtered to `allowedFunctionNames`, and a single
+ *   allowed name forces that specific tool,
+ * - `NONE` → tools are removed and tool history is converted to text so the request stays valid.
+ */
+export function applyClaudeToolConfig(requestPayload: Record<string, unknown>, toolNames: ToolNameMapping): void {
+  const config = readFunctionCallingConfig(requestPayload);
+  delete requestPayload.tool_config;
+  if (!config) {
+    return;
+  }
+
+  if (config.mode === "NONE") {
+    delete requestPayload.tools;
+    delete requestPayload.toolConfig;
+    if (Array.isArray(requestPayload.contents)) {
+      requestPayload.contents = convertToolHistoryToText(requestPayload.contents);
+    }
+    return;
+  }
+
+  if (config.mode !== "ANY") {
+    requestPayload.toolConfig = { functionCallingConfig: { mode: "AUTO" } };
+    return;
+  }
+
+  const allowed = new Set(
+    (config.allowedFunctionNames ?? []).map((name) => toolNames.toUpstream.get(name) ?? name),
+  );
+  const tools = Array.isArray(requestPayload.tools) ? requestPayload.tools : [];
+  const declaredNames = tools.flatMap((tool: any) =>
+    Array.isArray(tool?.functionDeclarations) ? tool.functionDeclarations.map((decl: any) => decl?.name) : [],
+  );
+  const allowedDeclared = declaredNames.filter((name: unknown) => typeof name === "string" && allowed.has(name));
+
+  if (allowedDeclared.length === 0) {
+    // No usable restriction: force any of the declared tools.
+    requestPayload.toolConfig = { functionCallingConfig: { mode: "ANY" } };
+    return;
+  }
+
+  requestPayload.tools = tools
+    .map((tool: any) => {
+      if (!Array.isArray(tool?.functionDeclarations)) {
+        return tool;
+      }
+      const functionDeclarations = tool.functionDeclarations.filter((decl: any) => allowed.has(decl?.name));
+      return functionDeclarations.length > 0 ? { ...tool, functionDeclarations } : null;
+    })
+    .filter(Boolean);
+  requestPayload.toolConfig = {
+    functionCallingConfig: {
+      mode: "ANY",
+      allowedFunctionNames: allowedDeclared,
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { applyToolNamesToContents, createToolNameMapping, registerToolName, restoreToolNames } from "./tool-names";
+
+describe("registerToolName", () => {
+  it("sanitizes names and suffixes collisions", () => {
+    const mapping = createToolNameMapping();
+
+    expect(registerToolName(mapping, "fs.read")).toBe("fs_read");
+    expect(registerToolName(mapping, "fs/read")).toBe("fs_read_2");
+    expect(registerToolName(mapping, "fs:read")).toBe("fs_read_3");
+    expect(registerToolName(mapping, "fs.read")).toBe("fs_read");
+  });
+
+  it("keeps suffixed names within the length limit", () => {
+    const mapping = createToolNameMapping();
+    const long = "a".repeat(80);
+
+    expect(registerToolName(mapping, long)).toHaveLength(64);
+    const second = registerToolName(mapping, `${long}.b`);
+    expect(second).toHaveLength(64);
+    expect(second.endsWith("_2")).toBe(true);
+  });
+});
+
+describe("restoreToolNames", () => {
+  it("restores original names on functionCall parts and tool_use blocks", () => {
+    const mapping = createToolNameMapping();
+    applyToolNamesToContents(
+      [{ role: "model", parts: [{ functionCall: { name: "mcp.search", args: {} } }, { text: "x" }] }],
+      mapping,
+    );
+    registerToolName(mapping, "mcp/search");
+
+    const response = restoreToolNames(
+      {
+        candidates: [
+          {
+            content: {
+              role: "model",
+              parts: [
+                { functionCall: { name: "mcp_search", args: { q: "a" } } },
+                { functionCall: { name: "mcp_search_2", args: { q: "b" } } },
+                { functionCall: { name: "unknown_tool", args: {} } },
+              ],
+            },
+          },
+        ],
+        content: [{ type: "tool_use", id: "t1", name: "mcp_search_2", input: {} }, { type: "text", text: "hi" }],
+      },
+      mapping,
+    ) as any;
+
+    expect(response.candidates[0].content.parts.map((part: any) => part.functionCall.name)).toEqual([
+      "mcp.search",
+      "mcp/search",
+      "unknown_tool",
+    ]);
+    expect(response.content).toEqual([
+      { type: "tool_use", id: "t1", name: "mcp/search", input: {} },
+      { type: "text", text: "hi" },
+    ]);
+  });
+
+  it("returns the response unchanged without a mapping", () => {
+    const response = { candidates: [] };
+
+    expect(restoreToolNames(response, createToolNameMapping())).toBe(response);
+    expect(restoreToolNames(response, undefined)).toBe(response);
+  });
+});
@@ -0,0 +1,130 @@
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Bidirectional mapping between caller tool names and the sanitized names sent upstream.
+ * Built once per request so `functionCall.name` in the response can be restored.
+ */
+export interface ToolNameMapping {
+  toUpstream: Map<string, string>;
+  toOriginal: Map<string, string>;
+}
+
+export function createToolNameMapping(): ToolNameMapping {
+  return {
+    toUpstream: new Map(),
+    toOriginal: new Map(),
+  };
+}
+
+/**
+ * Sanitizes a tool name to the character set Antigravity accepts.
+ */
+function sanitizeToolName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, MAX_TOOL_NAME_LENGTH);
+  return sanitized || "tool";
+}
+
+/**
+ * Registers a caller tool name and returns the upstream name to use for it. Names that collide
+ * after sanitizing (e.g. `fs.read` and `fs/read`) receive a numeric suffix so both stay addressable.
+ */
+export function registerToolName(mapping: ToolNameMapping, original: string): string {
+  const existing = mapping.toUpstream.get(original);
+  if (existing) {
+    return existing;
+  }
+
+  const base = sanitizeToolName(original);
+  let candidate = base;
+  let suffix = 2;
+  while (mapping.toOriginal.has(candidate)) {
+    const tail = `_${suffix++}`;
+    candidate = `${base.slice(0, MAX_TOOL_NAME_LENGTH - tail.length)}${tail}`;
+  }
+
+  mapping.toUpstream.set(original, candidate);
+  mapping.toOriginal.set(candidate, original);
+  return candidate;
+}
+
+/**
+ * Returns the caller's original name for an upstream tool name, or the name unchanged if unknown.
+ */
+export function resolveOriginalToolName(mapping: ToolNameMapping | undefined, upstream: string): string {
+  return mapping?.toOriginal.get(upstream) ?? upstream;
+}
+
+/**
+ * Rewrites `functionCall`/`functionResponse` names in request contents to their upstream names,
+ * so history stays consistent with the sanitized declarations.
+ */
+export function applyToolNamesToContents(contents: any[], mapping: ToolNameMapping): any[] {
+  return contents.map((content: any) => {
+    if (!content || !Array.isArray(content.parts)) {
+      return content;
+    }
+
+    const parts = content.parts.map((part: any) => {
+      if (!part || typeof part !== "object") {
+        return part;
+      }
+      if (part.functionCall && typeof part.functionCall.name === "string") {
+        return {
+          ...part,
+          functionCall: { ...part.functionCall, name: registerToolName(mapping, part.functionCall.name) },
+        };
+      }
+      if (part.functionResponse && typeof part.functionResponse.name === "string") {
+        return {
+          ...part,
+          functionResponse: { ...part.functionResponse, name: registerToolName(mapping, part.functionResponse.name) },
+        };
+      }
+      return part;
+    });
+
+    return { ...content, parts };
+  });
+}
+
+/**
+ * Restores original tool names on `functionCall` parts (Gemini-style candidates) and
+ * `tool_use` blocks (Anthropic-style content) of a response payload.
+ */
+export function restoreToolNames(response: unknown, mapping: ToolNameMapping | undefined): unknown {
+  if (!mapping || mapping.toOriginal.size === 0 || !response || typeof response !== "object") {
+    return response;
+  }
+
+  const resp = response as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...resp };
+
+  if (Array.isArray(resp.candidates)) {
+    result.candidates = resp.candidates.map((candidate: any) => {
+      if (!candidate?.content || !Array.isArray(candidate.content.parts)) {
+        return candidate;
+      }
+      const parts = candidate.content.parts.map((part: any) => {
+        if (part?.functionCall && typeof part.functionCall.name === "string") {
+          return {
+            ...part,
+            functionCall: { ...part.functionCall, name: resolveOriginalToolName(mapping, part.functionCall.name) },
+          };
+        }
+        return part;
+      });
+      return { ...candidate, content: { ...candidate.content, parts } };
+    });
+  }
+
+  if (Array.isArray(resp.content)) {
+    result.content = resp.content.map((block: any) => {
+      if (block?.type === "tool_use" && typeof block.name === "string") {
+        return { ...block, name: resolveOriginalToolName(mapping, block.name) };
+      }
+      return block;
+    });
+  }
+
+  return result;
+}
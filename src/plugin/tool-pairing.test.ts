@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { repairToolPairing } from "./tool-pairing";
+
+describe("repairToolPairing", () => {
+  it("keeps caller-supplied IDs and pairs responses by ID", () => {
+    const result = repairToolPairing([
+      { role: "user", parts: [{ text: "read both" }] },
+      {
+        role: "model",
+        parts: [
+          { functionCall: { id: "call-a", name: "read", args: { path: "a" } } },
+          { functionCall: { id: "call-b", name: "read", args: { path: "b" } } },
+        ],
+      },
+      {
+        role: "user",
+        parts: [
+          { functionResponse: { id: "call-b", name: "read", response: { text: "B" } } },
+          { functionResponse: { id: "call-a", name: "read", response: { text: "A" } } },
+        ],
+      },
+    ]);
+
+    expect(result[2]).toEqual({
+      role: "user",
+      parts: [
+        { functionResponse: { id: "call-a", name: "read", response: { text: "A" } } },
+        { functionResponse: { id: "call-b", name: "read", response: { text: "B" } } },
+      ],
+    });
+  });
+
+  it("assigns IDs and matches unlabelled responses by name in order", () => {
+    const result = repairToolPairing([
+      { role: "model", parts: [{ functionCall: { name: "ls", args: {} } }] },
+      { role: "user", parts: [{ functionResponse: { name: "ls", response: { files: [] } } }] },
+    ]);
+
+    expect(result[0].parts[0].functionCall.id).toBe("tool-call-1");
+    expect(result[1].parts[0].functionResponse.id).toBe("tool-call-1");
+  });
+
+  it("does not generate IDs that a later call or result already uses", () => {
+    const result = repairToolPairing([
+      { role: "model", parts: [{ functionCall: { name: "ls", args: {} } }] },
+      { role: "user", parts: [{ functionResponse: { name: "ls", response: { files: [] } } }] },
+      { role: "model", parts: [{ functionCall: { id: "tool-call-1", name: "read", args: {} } }] },
+      { role: "user", parts: [{ functionResponse: { id: "tool-call-1", name: "read", response: { text: "A" } } }] },
+    ]);
+
+    expect(result[0].parts[0].functionCall.id).toBe("tool-call-2");
+    expect(result[1].parts[0].functionResponse).toMatchObject({ id: "tool-call-2", name: "ls" });
+    expect(result[3].parts[0].functionResponse).toMatchObject({ id: "tool-call-1", name: "read", response: { text: "A" } });
+  });
+
+  it("synthesizes results for unanswered calls directly after the tool-use turn", () => {
+    const result = repairToolPairing([
+      { role: "model", parts: [{ functionCall: { id: "c1", name: "bash", args: {} } }] },
+      { role: "user", parts: [{ text: "never mind" }] },
+    ]);
+
+    expect(result).toHaveLength(2);
+    expect(result[1].role).toBe("user");
+    expect(result[1].parts[0].functionResponse).toMatchObject({ id: "c1", name: "bash" });
+    expect(result[1].parts[1]).toEqual({ text: "never mind" });
+  });
+
+  it("converts orphan responses into text", () => {
+    const result = repairToolPairing([
+      { role: "user", parts: [{ functionResponse: { id: "gone", name: "grep", response: { hits: 2 } } }] },
+    ]);
+
+    expect(result).toEqual([
+      { role: "user", parts: [{ text: '[Tool result for grep] {"hits":2}' }] },
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Placeholder returned for tool calls that never received a result. Anthropic rejects any
+ * `tool_use` block that is not answered by a `tool_result` in the very next user turn.
+ */
+const MISSING_RESPONSE_PLACEHOLDER = {
+  error: "No result was recorded for this tool call.",
+};
+
+interface CallRecord {
+  id: string;
+  name: string;
+}
+
+function isModelRole(role: unknown): boolean {
+  return role === "model" || role === "assistant";
+}
+
+function isCallPart(part: any): boolean {
+  return !!part && typeof part === "object" && !!part.functionCall;
+}
+
+function isResponsePart(part: any): boolean {
+  return !!part && typeof part === "object" && !!part.functionResponse;
+}
+
+/**
+ * Converts a tool result that has no matching call into plain text so its content is kept
+ * without producing an invalid `tool_result` block.
+ */
+function orphanResponseToText(part: any): any | null {
+  const { name, response } = part.functionResponse;
+  if (response === undefined || response === null) {
+    return null;
+  }
+  const label = typeof name === "string" && name ? name : "unknown";
+  const serialized = typeof response === "string" ? response : JSON.stringify(response);
+  return { text: `[Tool result for ${label}] ${serialized}` };
+}
+
+/**
+ * Repairs functionCall/functionResponse pairing for Claude models:
+ * - keeps caller-supplied call IDs and assigns `tool-call-N` IDs where missing, avoiding every
+ *   ID used anywhere in the history,
+ * - matches responses to calls by ID, falling back to name (FIFO) when the response has no ID,
+ * - places every result in the user turn directly following its tool-use turn,
+ * - synthesizes placeholder results for unanswered calls,
+ * - converts orphan results (no matching call, e.g. after history truncation) into text.
+ */
+export function repairToolPairing(contents: any[]): any[] {
+  let toolCallCounter = 0;
+  // Every ID in the history, so a generated ID never equals one supplied later on
+  const knownCallIds = new Set<string>();
+  for (const content of contents) {
+    for (const part of Array.isArray(content?.parts) ? content.parts : []) {
+      const id = isCallPart(part) ? part.functionCall.id : isResponsePart(part) ? part.functionResponse.id : undefined;
+      if (typeof id === "string" && id) {
+        knownCallIds.add(id);
+      }
+    }
+  }
+
+  const withIds = contents.map((content: any) => {
+    if (!content || !Array.isArray(content.parts)) {
+      return content;
+    }
+    const parts = content.parts.map((part: any) => {
+      if (!isCallPart(part)) {
+        return part;
+      }
+      const call = { ...part.functionCall };
+      if (typeof call.id !== "string" || !call.id) {
+        do {
+          call.id = `tool-call-${++toolCallCounter}`;
+        } while (knownCallIds.has(call.id));
+      }
+      knownCallIds.add(call.id);
+      return { ...part, functionCall: call };
+    });
+    return { ...content, parts };
+  });
+
+  // Match responses to calls that precede them in the history.
+  const callsById = new Map<string, CallRecord>();
+  const unansweredByName = new Map<string, string[]>();
+  const responseByCallId = new Map<string, any>();
+  const matchedResponses = new Set<any>();
+
+  for (const content of withIds) {
+    if (!content || !Array.isArray(content.parts)) {
+      continue;
+    }
+    for (const part of content.parts) {
+      if (isCallPart(part)) {
+        const { id, name } = part.functionCall;
+        const nameKey = typeof name === "string" ? name : "";
+        callsById.set(id, { id, name: nameKey });
+        const queue = unansweredByName.get(nameKey) ?? [];
+        queue.push(id);
+        unansweredByName.set(nameKey, queue);
+        continue;
+      }
+
+      if (!isResponsePart(part)) {
+        continue;
+      }
+
+      const response = part.functionResponse;
+      let callId: string | undefined;
+      if (typeof response.id === "string" && response.id) {
+        if (callsById.has(response.id) && !responseByCallId.has(response.id)) {
+          callId = response.id;
+        }
+      } else if (typeof response.name === "string") {
+        callId = unansweredByName.get(response.name)?.find((id) => !responseByCallId.has(id));
+      }
+
+      if (!callId) {
+        continue;
+      }
+
+      const call = callsById.get(callId)!;
+      const queue = unansweredByName.get(call.name);
+      if (queue) {
+        unansweredByName.set(call.name, queue.filter((id) => id !== callId));
+      }
+      responseByCallId.set(callId, {
+        ...part,
+        functionResponse: { ...response, id: callId, name: call.name || response.name },
+      });
+      matchedResponses.add(part);
+    }
+  }
+
+  // Rebuild the history so each tool-use turn is immediately followed by its results.
+  const result: any[] = [];
+  const toolResultTurns = new Set<any>();
+
+  for (const content of withIds) {
+    if (!content || !Array.isArray(content.parts)) {
+      result.push(content);
+      continue;
+    }
+
+    const remainingParts: any[] = [];
+    for (const part of content.parts) {
+      if (!isResponsePart(part)) {
+        remainingParts.push(part);
+        continue;
+      }
+      if (matchedResponses.has(part)) {
+        continue;
+      }
+      const text = orphanResponseToText(part);
+      if (text) {
+        remainingParts.push(text);
+      }
+    }
+
+    const calls = remainingParts.filter(isCallPart);
+    if (isModelRole(content.role) && calls.length > 0) {
+      result.push({ ...content, parts: remainingParts });
+      const toolResultTurn = {
+        role: "user",
+        parts: calls.map((part: any) => {
+          const { id, name } = part.functionCall;
+          return responseByCallId.get(id) ?? {
+            functionResponse: { id, name, response: { ...MISSING_RESPONSE_PLACEHOLDER } },
+          };
+        }),
+      };
+      toolResultTurns.add(toolResultTurn);
+      result.push(toolResultTurn);
+      continue;
+    }
+
+    if (remainingParts.length === 0) {
+      continue;
+    }
+
+    const previous = result[result.length - 1];
+    if (!isModelRole(content.role) && toolResultTurns.has(previous)) {
+      // Keep follow-up user content in the same turn, after the tool results.
+      previous.parts.push(...remainingParts);
+      continue;
+    }
+
+    result.push({ ...content, parts: remainingParts });
+  }
+
+  return result;
+}
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { limitToolResults, resetToolResultLimitOverrides, resolveToolResultLimit } from "./tool-result-limits";
+import { createToolNameMapping, registerToolName } from "./tool-names";
+
+function toolTurn(response: unknown) {
+  return { role: "user", parts: [{ functionResponse: { name: "read_file", id: "call-1", response } }] };
+}
+
+describe("resolveToolResultLimit", () => {
+  afterEach(() => {
+    delete process.env.OPENCODE_ANTIGRAVITY_TOOL_RESULT_LIMITS;
+    resetToolResultLimitOverrides();
+  });
+
+  it("derives limits from the context window and applies overrides", () => {
+    expect(resolveToolResultLimit("claude-sonnet-4-5")).toBe(80000);
+
+    process.env.OPENCODE_ANTIGRAVITY_TOOL_RESULT_LIMITS = JSON.stringify({ default: 5000, "claude-sonnet-4-5": 20000 });
+    resetToolResultLimitOverrides();
+
+    expect(resolveToolResultLimit("google/claude-sonnet-4-5")).toBe(20000);
+    expect(resolveToolResultLimit("gemini-3-pro-high")).toBe(5000);
+  });
+});
+
+describe("limitToolResults", () => {
+  afterEach(() => {
+    delete process.env.OPENCODE_ANTIGRAVITY_TOOL_RESULT_LIMITS;
+    resetToolResultLimitOverrides();
+  });
+
+  it("elides the middle of long strings and keeps the result structure", () => {
+    process.env.OPENCODE_ANTIGRAVITY_TOOL_RESULT_LIMITS = JSON.stringify({ default: 2000 });
+    const log = `${"start\n".repeat(500)}${"end\n".repeat(500)}`;
+    const adjustments: string[] = [];
+
+    const [turn] = limitToolResults([toolTurn({ output: log, exitCode: 0 })], "claude-sonnet-4-5", adjustments, undefined, "elide");
+    const part = turn.parts[0];
+    const response = part.functionResponse.response;
+
+    expect(part.functionResponse.id).toBe("call-1");
+    expect(response.exitCode).toBe(0);
+    expect(response.output.startsWith("start\n")).toBe(true);
+    expect(response.output.endsWith("end\n")).toBe(true);
+    expect(response.output).toMatch(/\[\.\.\. \d+ characters elided \.\.\.\]/);
+    expect(JSON.stringify(response).length).toBeLessThanOrEqual(2000);
+    expect(adjustments).toHaveLength(1);
+    expect(adjustments[0]).toMatch(/^tool result read_file cut from \d+ to \d+ characters \(middle elided, limit 2000\)$/);
+  });
+
+  it("summarizes results whose size is not in a few strings", () => {
+    process.env.OPENCODE_ANTIGRAVITY_TOOL_RESULT_LIMITS = JSON.stringify({ default: 1000 });
+    const rows = Array.from({ length: 500 }, (_, index) => ({ id: index, ok: true }));
+    const adjustments: string[] = [];
+
+    const [turn] = limitToolResults([toolTurn({ rows })], "gemini-3-pro-high", adjustments);
+    const response = turn.parts[0].functionResponse.response;
+
+    expect(response.truncated).toBe(true);
+    expect(response.originalCharacters).toBe(JSON.stringify({ rows }).length);
+    expect(response.content.startsWith("{\"rows\":[")).toBe(true);
+    expect(JSON.stringify(response).length).toBeLessThanOrEqual(1000);
+    expect(adjustments[0]).toContain("(summarized, limit 1000)");
+  });
+
+  it("leaves results within the limit and other turns untouched", () => {
+    const contents = [{ role: "user", parts: [{ text: "hi" }] }, toolTurn({ output: "small" })];
+    const adjustments: string[] = [];
+
+    expect(limitToolResults(contents, "claude-sonnet-4-5", adjustments)).toEqual(contents);
+    expect(adjustments).toEqual([]);
+  });
+
+  it("reports cuts under the caller's tool name", () => {
+    process.env.OPENCODE_ANTIGRAVITY_TOOL_RESULT_LIMITS = JSON.stringify({ default: 1000 });
+    const toolNames = createToolNameMapping();
+    const upstream = registerToolName(toolNames, "fs.read");
+    const turn = { role: "user", parts: [{ functionResponse: { name: upstream, response: { output: "x".repeat(5000) } } }] };
+    const adjustments: string[] = [];
+
+    limitToolResults([turn], "claude-sonnet-4-5", adjustments, toolNames);
+
+    expect(upstream).not.toBe("fs.read");
+    expect(adjustments[0]).toMatch(/^tool result fs\.read cut from /);
+  });
+
+  it("replaces binary data whole instead of cutting it", () => {
+    process.env.OPENCODE_ANTIGRAVITY_TOOL_RESULT_LIMITS = JSON.stringify({ default: 2000 });
+    const data = Buffer.alloc(6000, 7).toString("base64");
+    const adjustments: string[] = [];
+
+    const [turn] = limitToolResults(
+      [toolTurn({ output: "done", image: { inlineData: { mimeType: "image/png", data } } })],
+      "gemini-3-pro-high",
+      adjustments,
+    );
+    const response = turn.parts[0].functionResponse.response;
+
+    expect(response).toEqual({
+      output: "done",
+      image: { inlineData: { mimeType: "image/png", data: `[${data.length} characters of binary data omitted]` } },
+    });
+
+    const [summarized] = limitToolResults(
+      [toolTurn({ rows: Array.from({ length: 300 }, (_, id) => ({ id })), src: `data:image/png;base64,${data}` })],
+      "gemini-3-pro-high",
+      adjustments,
+      undefined,
+      "summarize",
+    );
+    const content = summarized.parts[0].functionResponse.response.content as string;
+    expect(content).toContain("characters of binary data omitted");
+    expect(content).not.toContain(data.slice(0, 100));
+  });
+});
@@ -0,0 +1,325 @@
+import { readFileSync } from "node:fs";
+import { env } from "node:process";
+
+import { getModelInfo, normalizeModelId } from "./models";
+import { resolveOriginalToolName, type ToolNameMapping } from "./tool-names";
+
+/**
+ * How a tool result over the size limit is cut down:
+ * - `elide`: shorten the longest strings in the result from the middle, keeping its structure,
+ *   and fall back to `summarize` when that is not enough (default),
+ * - `summarize`: replace the result with `{ content, truncated, originalCharacters }`, where
+ *   `content` is the serialized result with its middle elided,
+ * - `off`: send tool results unchanged.
+ */
+export type ToolResultPolicy = "elide" | "summarize" | "off";
+
+const TOOL_RESULT_POLICIES: readonly ToolResultPolicy[] = ["elide", "summarize", "off"];
+
+/**
+ * Rough characters-per-token ratio used to derive default limits from the context window.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Share of the model's context window one tool result may use by default.
+ */
+const DEFAULT_CONTEXT_SHARE = 0.1;
+
+/**
+ * Limit for models missing from the catalog, in serialized characters.
+ */
+const UNKNOWN_MODEL_LIMIT = 100_000;
+
+/**
+ * Characters kept of a string shortened by elision; shorter strings are left alone.
+ */
+const MIN_KEPT_CHARS = 256;
+
+/**
+ * Room left for the elision marker and the summary wrapper when sizing what is kept.
+ */
+const MARKER_ALLOWANCE = 64;
+
+/**
+ * Strings shortened per tool result before falling back to the summary form.
+ */
+const MAX_ELIDED_STRINGS = 32;
+
+/**
+ * Limit overrides keyed by model ID, with `default` applying to every model.
+ */
+let limitOverrides: Record<string, number> | null = null;
+
+/**
+ * Reads the configured policy from `OPENCODE_ANTIGRAVITY_TOOL_RESULT_POLICY`.
+ */
+export function resolveToolResultPolicy(): ToolResultPolicy {
+  const value = env.OPENCODE_ANTIGRAVITY_TOOL_RESULT_POLICY?.trim().toLowerCase();
+  return TOOL_RESULT_POLICIES.find((policy) => policy === value) ?? "elide";
+}
+
+/**
+ * Loads limit overrides from `OPENCODE_ANTIGRAVITY_TOOL_RESULT_LIMITS`, given either as inline
+ * JSON or as the path of a JSON file, e.g. `{ "default": 60000, "gemini-3-pro-high": 200000 }`.
+ * Invalid configuration is ignored.
+ */
+function loadLimitOverrides(): Record<string, number> {
+  if (limitOverrides) {
+    return limitOverrides;
+  }
+
+  limitOverrides = {};
+  const raw = env.OPENCODE_ANTIGRAVITY_TOOL_RESULT_LIMITS?.trim();
+  if (!raw) {
+    return limitOverrides;
+  }
+  try {
+    const parsed = JSON.parse(raw.startsWith("{") ? raw : readFileSync(raw, "utf8")) as unknown;
+    if (parsed && typeof parsed === "object") {
+      for (const [model, limit] of Object.entries(parsed as Record<string, unknown>)) {
+        if (typeof limit === "number" && Number.isFinite(limit) && limit > 0) {
+          limitOverrides[model.trim().toLowerCase()] = Math.floor(limit);
+        }
+      }
+    }
+  } catch {
+    // Fall back to the default limits.
+  }
+  return limitOverrides;
+}
+
+/**
+ * Maximum serialized size of one tool result for a model, in characters: override for the
+ * model, then the configured default, then a tenth of the model's context window.
+ */
+export function resolveToolResultLimit(model: string): number {
+  const overrides = loadLimitOverrides();
+  const override = overrides[normalizeModelId(model)] ?? overrides.default;
+  if (override !== undefined) {
+    return override;
+  }
+  const info = getModelInfo(model);
+  return info ? Math.floor(info.contextLimit * CHARS_PER_TOKEN * DEFAULT_CONTEXT_SHARE) : UNKNOWN_MODEL_LIMIT;
+}
+
+/**
+ * Clears cached overrides so configuration changes are picked up (used by tests).
+ */
+export function resetToolResultLimitOverrides(): void {
+  limitOverrides = null;
+}
+
+function elisionMarker(omitted: number): string {
+  return `\n[... ${omitted} characters elided ...]\n`;
+}
+
+/**
+ * Keeps the first and last `keep / 2` characters of `text` around an elision marker.
+ */
+function elideMiddle(text: string, keep: number): string {
+  const head = Math.ceil(keep / 2);
+  const tail = keep - head;
+  return `${text.slice(0, head)}${elisionMarker(text.length - keep)}${tail > 0 ? text.slice(-tail) : ""}`;
+}
+
+/**
+ * Serialized characters per character of `text` (above 1 when it holds quotes, newlines etc.).
+ */
+function escapeRatio(text: string): number {
+  return Math.max(1, JSON.stringify(text).length / Math.max(1, text.length));
+}
+
+/**
+ * Characters of `text` to keep so that its serialized form shrinks by about `excess`.
+ */
+function charsToKeep(text: string, excess: number): number {
+  return text.length - Math.ceil(excess / escapeRatio(text)) - MARKER_ALLOWANCE;
+}
+
+interface StringLeaf {
+  parent: Record<string, unknown> | unknown[];
+  key: string | number;
+  length: number;
+  /** Base64 payload (inline data, image source or data URI); replaced whole, never cut. */
+  binary: boolean;
+}
+
+const MIME_TYPE_KEYS = ["mimeType", "mime_type", "mediaType", "media_type"] as const;
+
+/**
+ * Whether a string is binary data: a base64 data URI, or the `data` of an object that names its
+ * MIME type (Gemini `inlineData`, MCP images, Anthropic base64 sources).
+ */
+function isBinaryString(parent: StringLeaf["parent"], key: string | number, text: string): boolean {
+  if (text.startsWith("data:") && text.includes(";base64,")) {
+    return true;
+  }
+  if (Array.isArray(parent) || key !== "data") {
+    return false;
+  }
+  return parent.type === "base64" || MIME_TYPE_KEYS.some((mimeKey) => typeof parent[mimeKey] === "string");
+}
+
+function binaryMarker(length: number): string {
+  return `[${length} characters of binary data omitted]`;
+}
+
+function collectStringLeaves(value: unknown, leaves: StringLeaf[]): void {
+  if (!value || typeof value !== "object") {
+    return;
+  }
+  const entries: [string | number, unknown][] = Array.isArray(value)
+    ? value.map((entry, index) => [index, entry])
+    : Object.entries(value);
+  for (const [key, entry] of entries) {
+    if (typeof entry === "string") {
+      const parent = value as StringLeaf["parent"];
+      leaves.push({ parent, key, length: entry.length, binary: isBinaryString(parent, key, entry) });
+    } else {
+      collectStringLeaves(entry, leaves);
+    }
+  }
+}
+
+/**
+ * Shortens the longest strings of a result from the middle until it serializes within `limit`,
+ * or returns undefined when its size is not in a few strings. Binary data is replaced whole by
+ * a marker, since a cut base64 payload is corrupt.
+ */
+function elideLongStrings(response: unknown, limit: number): unknown {
+  const copy = JSON.parse(JSON.stringify(response)) as unknown;
+  const leaves: StringLeaf[] = [];
+  collectStringLeaves(copy, leaves);
+  leaves.sort((a, b) => b.length - a.length);
+
+  let size = JSON.stringify(copy).length;
+  for (const leaf of leaves.slice(0, MAX_ELIDED_STRINGS)) {
+    if (size <= limit) {
+      break;
+    }
+    const text = (leaf.parent as any)[leaf.key] as string;
+    if (leaf.binary) {
+      if (binaryMarker(text.length).length >= text.length) {
+        continue;
+      }
+      (leaf.parent as any)[leaf.key] = binaryMarker(text.length);
+      size = JSON.stringify(copy).length;
+      continue;
+    }
+    const keep = Math.max(MIN_KEPT_CHARS, charsToKeep(text, size - limit));
+    if (keep >= text.length - MARKER_ALLOWANCE) {
+      break;
+    }
+    (leaf.parent as any)[leaf.key] = elideMiddle(text, keep);
+    size = JSON.stringify(copy).length;
+  }
+  return size <= limit ? copy : undefined;
+}
+
+/**
+ * Returns a copy of a result with every binary string replaced by a marker.
+ */
+function omitBinaryData(response: unknown): unknown {
+  const copy = JSON.parse(JSON.stringify(response ?? {})) as unknown;
+  const leaves: StringLeaf[] = [];
+  collectStringLeaves(copy, leaves);
+  for (const leaf of leaves) {
+    if (leaf.binary) {
+      (leaf.parent as any)[leaf.key] = binaryMarker(leaf.length);
+    }
+  }
+  return copy;
+}
+
+/**
+ * Replaces a result with its serialized form, binary data omitted and middle elided to fit
+ * `limit`.
+ */
+function summarizeResponse(response: unknown, limit: number): Record<string, unknown> {
+  const serialized = JSON.stringify(omitBinaryData(response));
+  const keep = Math.max(0, Math.floor((limit - 2 * MARKER_ALLOWANCE) / escapeRatio(serialized)));
+  return {
+    content: keep >= serialized.length ? serialized : elideMiddle(serialized, keep),
+    truncated: true,
+    originalCharacters: JSON.stringify(response ?? {}).length,
+  };
+}
+
+/**
+ * A tool result cut down to a size limit, and how it was cut.
+ */
+export interface ShortenedToolResult {
+  response: unknown;
+  method: "middle elided" | "summarized";
+}
+
+/**
+ * Cuts one `functionResponse.response` down to `limit` serialized characters, or returns
+ * undefined when it already fits. `elide` keeps the result's structure when its size is in a
+ * few strings and falls back to the summary form; `summarize` always uses the summary form.
+ * Both the per-result limit and the context-window guard shorten results through this, so
+ * they share one shape and one elision marker.
+ */
+export function shortenToolResult(
+  response: unknown,
+  limit: number,
+  policy: Exclude<ToolResultPolicy, "off"> = "elide",
+): ShortenedToolResult | undefined {
+  const serialized = JSON.stringify(response ?? {});
+  if (serialized.length <= limit) {
+    return undefined;
+  }
+  const elided = policy === "elide" ? elideLongStrings(response, limit) : undefined;
+  return elided !== undefined
+    ? { response: elided, method: "middle elided" }
+    : { response: summarizeResponse(response, limit), method: "summarized" };
+}
+
+/**
+ * Cuts down `functionResponse` payloads whose serialized size exceeds the model's limit, so a
+ * single large file read or build log neither overflows the context window nor gets the request
+ * rejected. Results stay valid JSON objects. Each cut is described in `adjustments` under the
+ * caller's tool name, and adjustments are returned in response headers and written to debug logs.
+ */
+export function limitToolResults(
+  contents: any[],
+  model: string,
+  adjustments: string[],
+  toolNames?: ToolNameMapping,
+  policy: ToolResultPolicy = resolveToolResultPolicy(),
+): any[] {
+  if (policy === "off") {
+    return contents;
+  }
+  const limit = resolveToolResultLimit(model);
+
+  return contents.map((content: any) => {
+    if (!content || !Array.isArray(content.parts) || !content.parts.some((part: any) => part?.functionResponse)) {
+      return content;
+    }
+    let changed = false;
+    const parts = content.parts.map((part: any) => {
+      const functionResponse = part?.functionResponse;
+      if (!functionResponse || functionResponse.response === undefined) {
+        return part;
+      }
+      const shortened = shortenToolResult(functionResponse.response, limit, policy);
+      if (!shortened) {
+        return part;
+      }
+
+      const { response, method } = shortened;
+      const name = typeof functionResponse.name === "string"
+        ? resolveOriginalToolName(toolNames, functionResponse.name)
+        : "tool";
+      adjustments.push(
+        `tool result ${name} cut from ${JSON.stringify(functionResponse.response).length} to ` +
+          `${JSON.stringify(response).length} characters (${method}, limit ${limit})`,
+      );
+      changed = true;
+      return { ...part, functionResponse: { ...functionResponse, response } };
+    });
+    return changed ? { ...content, parts } : content;
+  });
+}
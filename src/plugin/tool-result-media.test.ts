@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+
+import { attachToolResultImages } from "./tool-result-media";
+
+describe("attachToolResultImages", () => {
+  it("moves images out of tool results into image parts after the results", () => {
+    const adjustments: string[] = [];
+    const result = attachToolResultImages(
+      [
+        { role: "user", parts: [{ text: "take a screenshot" }] },
+        { role: "model", parts: [{ functionCall: { id: "c1", name: "screenshot", args: {} } }] },
+        {
+          role: "user",
+          parts: [
+            {
+              functionResponse: {
+                id: "c1",
+                name: "screenshot",
+                response: { content: [{ type: "text", text: "ok" }, { type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" }] },
+              },
+            },
+          ],
+        },
+      ],
+      "claude",
+      adjustments,
+    );
+
+    expect(result[2].parts).toEqual([
+      {
+        functionResponse: {
+          id: "c1",
+          name: "screenshot",
+          response: {
+            content: [{ type: "text", text: "ok" }, "[image 1: image/png, attached after the tool result]"],
+          },
+        },
+      },
+      { text: "Image 1 from screenshot:" },
+      { inlineData: { mimeType: "image/png", data: "iVBORw0KGgo=" } },
+    ]);
+    expect(adjustments).toEqual(["attached 1 tool result image(s) as image parts"]);
+  });
+});
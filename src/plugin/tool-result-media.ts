@@ -0,0 +1,155 @@
+import { checkInlineMedia, MediaInputError, parseDataUri } from "./media";
+import type { ModelFamily } from "./models";
+
+/**
+ * Most recent tool-result images sent per request; older ones are replaced by a note so long
+ * vision loops stay within request size limits.
+ */
+const MAX_TOOL_RESULT_IMAGES = 20;
+
+/**
+ * Nesting depth searched for images inside a tool result.
+ */
+const MAX_SEARCH_DEPTH = 8;
+
+interface ExtractedImage {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * Recognizes an image value inside a tool result: Gemini `inlineData`, MCP
+ * `{ type: "image", data, mimeType }`, Anthropic `{ type: "image", source }`, OpenAI
+ * `image_url` entries and `data:image/...` strings.
+ */
+function asImage(value: unknown): ExtractedImage | undefined {
+  if (typeof value === "string") {
+    const parsed = value.startsWith("data:image/") ? parseDataUri(value) : undefined;
+    return parsed?.data ? parsed : undefined;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+  const record = value as Record<string, any>;
+  const inline = record.inlineData ?? record.inline_data;
+  if (inline && typeof inline.data === "string" && typeof (inline.mimeType ?? inline.mime_type) === "string") {
+    const mimeType = inline.mimeType ?? inline.mime_type;
+    return mimeType.startsWith("image/") ? { mimeType, data: inline.data } : undefined;
+  }
+  if (record.type === "image") {
+    if (typeof record.data === "string" && typeof (record.mimeType ?? record.mime_type) === "string") {
+      return { mimeType: record.mimeType ?? record.mime_type, data: record.data };
+    }
+    const source = record.source;
+    if (source?.type === "base64" && typeof source.data === "string") {
+      return { mimeType: source.media_type ?? source.mediaType ?? "image/png", data: source.data };
+    }
+  }
+  if (record.type === "image_url") {
+    const url = typeof record.image_url === "string" ? record.image_url : record.image_url?.url;
+    return typeof url === "string" ? asImage(url) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Replaces every image inside a tool result with a text marker, collecting the images.
+ */
+function extractImages(value: unknown, images: ExtractedImage[], depth = 0): unknown {
+  const image = asImage(value);
+  if (image) {
+    images.push(image);
+    return `[image ${images.length}: ${image.mimeType}, attached after the tool result]`;
+  }
+  if (depth >= MAX_SEARCH_DEPTH || !value || typeof value !== "object") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => extractImages(entry, images, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, extractImages(entry, images, depth + 1)]),
+  );
+}
+
+/**
+ * Moves images out of tool results into inline image parts of the same user turn, placed after
+ * the tool results, so Claude receives them as image blocks next to the `tool_result` instead
+ * of opaque JSON. Gemini-style `functionResponse.parts` are moved the same way. Images over the
+ * family limits, and all but the most recent `MAX_TOOL_RESULT_IMAGES`, are replaced by a note.
+ */
+export function attachToolResultImages(contents: any[], family: ModelFamily, adjustments: string[]): any[] {
+  let remaining = MAX_TOOL_RESULT_IMAGES;
+  let attached = 0;
+  let omitted = 0;
+
+  // Walk backwards so the most recent images are the ones kept.
+  const result = [...contents];
+  for (let i = result.length - 1; i >= 0; i--) {
+    const content = result[i];
+    if (!content || !Array.isArray(content.parts) || !content.parts.some((part: any) => part?.functionResponse)) {
+      continue;
+    }
+
+    const toolParts: any[] = [];
+    const imageParts: any[] = [];
+    const otherParts: any[] = [];
+    for (const part of content.parts) {
+      if (!part?.functionResponse) {
+        otherParts.push(part);
+        continue;
+      }
+      const images: ExtractedImage[] = [];
+      const { parts: nestedParts, ...functionResponse } = part.functionResponse;
+      const response = extractImages(functionResponse.response, images);
+      if (Array.isArray(nestedParts)) {
+        for (const nested of nestedParts) {
+          const image = asImage(nested);
+          if (image) {
+            images.push(image);
+          }
+        }
+      }
+      if (images.length === 0) {
+        toolParts.push(part);
+        continue;
+      }
+
+      toolParts.push({ ...part, functionResponse: { ...functionResponse, response } });
+      const name = typeof functionResponse.name === "string" ? functionResponse.name : "tool";
+      images.forEach((image, index) => {
+        const label = `Image ${index + 1} from ${name}`;
+        if (remaining <= 0) {
+          omitted += 1;
+          imageParts.push({ text: `[${label} omitted: only the ${MAX_TOOL_RESULT_IMAGES} most recent tool images are sent]` });
+          return;
+        }
+        try {
+          checkInlineMedia(image.data, image.mimeType, family, label);
+        } catch (error) {
+          if (!(error instanceof MediaInputError)) {
+            throw error;
+          }
+          omitted += 1;
+          imageParts.push({ text: `[${error.message}]` });
+          return;
+        }
+        remaining -= 1;
+        attached += 1;
+        imageParts.push({ text: `${label}:` }, { inlineData: { mimeType: image.mimeType, data: image.data } });
+      });
+    }
+
+    if (imageParts.length > 0) {
+      result[i] = { ...content, parts: [...toolParts, ...imageParts, ...otherParts] };
+    }
+  }
+
+  if (attached > 0) {
+    adjustments.push(`attached ${attached} tool result image(s) as image parts`);
+  }
+  if (omitted > 0) {
+    adjustments.push(`omitted ${omitted} tool result image(s) over the size or count limits`);
+  }
+  return result;
+}
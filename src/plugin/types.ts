@@ -17,6 +17,12 @@ export type AuthDetails = OAuthAuthDetails | NonOAuthAuthDetails;
 export type GetAuth = () => Promise<AuthDetails>;
 
 export interface ProviderModel {
+  id?: string;
+  name?: string;
+  limit?: {
+    context: number;
+    output: number;
+  };
   cost?: {
     input: number;
     output: number;